@@ -1,9 +1,15 @@
-﻿import React, { useState, useCallback } from "react";
-import * as mgrs from "mgrs";
+﻿import React, { useState } from "react";
 
 import OpenLayersTest from "./OpenLayersTest";
-import type { OLInfo, GoToRequest, MapEvent } from "./types";
-import { MapDataProvider, useMapData } from "./MapDataContext";
+import MapControlDrawer from "./MapControlDrawer";
+import type { OLInfo, LatLon, InteractionMode, MeasureMode, GoToRequest, FitBoundsRequest, BaseLayerConfig } from "./types";
+import { MapDataProvider } from "./MapDataContext";
+import { DEFAULT_BASE_LAYERS } from "./baseLayers";
+import { DEFAULT_MARKER_CATEGORY } from "./markerIcons";
+import { useMapCommands } from "./useMapCommands";
+import { parseMapCommand } from "./commandParser";
+import { parseCoordinate, COORDINATE_EXAMPLES, COORDINATE_FORMAT_LABELS } from "./coordinateParser";
+import { toMgrs } from "./coordinateFormat";
 
 /* ============================================================
    Local types
@@ -17,8 +23,39 @@ type Toggles = {
     zones: boolean;
     markers: boolean;
     heatIncidents: boolean;
+    mgrsGrid: boolean;
+};
+
+/**
+ * Message under the top bar, and which input it's about.
+ */
+type BarFeedback = {
+    kind: "ok" | "warning" | "error";
+    text: string;
+    source: "coord" | "query";
 };
 
+/* ============================================================
+   Base layers
+   ============================================================ */
+
+/**
+ * Online OSM plus a local tile server for air-gapped deployments.
+ * Point the offline entry at whatever serves your .mbtiles
+ * (e.g. `mbtileserver --port 8080`).
+ */
+const BASE_LAYERS: BaseLayerConfig[] = [
+    ...DEFAULT_BASE_LAYERS,
+    {
+        id: "offline",
+        label: "Offline (local tile server)",
+        kind: "mbtiles",
+        url: "http://localhost:8080/tiles/{z}/{x}/{y}.png",
+        attribution: "Local tiles",
+        maxZoom: 16,
+    },
+];
+
 /* ============================================================
    Styles
    ============================================================
@@ -67,6 +104,24 @@ const ICON_BTN_STYLE: React.CSSProperties = {
     userSelect: "none",
 };
 
+const FEEDBACK_STYLE: React.CSSProperties = {
+    position: "absolute",
+    top: "100%",
+    marginTop: 4,
+    maxWidth: 520,
+    padding: "4px 10px",
+    borderRadius: 6,
+    fontSize: 12,
+    color: "#fff",
+    boxShadow: "0 6px 16px rgba(0,0,0,0.18)",
+};
+
+const FEEDBACK_COLORS: Record<BarFeedback["kind"], string> = {
+    ok: "#2e7d32",
+    warning: "#b26a00",
+    error: "#c62828",
+};
+
 const SUBMIT_STYLE: React.CSSProperties = {
     height: 30,
     padding: "0 12px",
@@ -79,101 +134,6 @@ const SUBMIT_STYLE: React.CSSProperties = {
     whiteSpace: "nowrap",
 };
 
-const DRAWER_WIDTH = 300;
-
-const ROW_STYLE: React.CSSProperties = {
-    display: "flex",
-    alignItems: "center",
-    gap: 10,
-    marginTop: 8,
-};
-
-const DIVIDER_STYLE: React.CSSProperties = {
-    marginTop: 12,
-    paddingTop: 12,
-    borderTop: "1px solid rgba(255,255,255,0.12)",
-};
-
-/* ============================================================
-   Little helpers
-   ============================================================ */
-
-/**
- * Consistent numeric formatting for lat/lon values displayed in the UI.
- */
-function formatNumber(n: number): string {
-    return n.toFixed(5);
-}
-
-/**
- * Parses the "go to" input box.
- * Accepts either:
- *  - MGRS string (contains letters)
- *  - "lat, lon" numeric string
- */
-function parseCoordinateInput(input: string): { lat: number; lon: number; mgrsText?: string } {
-    const trimmed = input.trim();
-    if (!trimmed) throw new Error("Empty input");
-
-    // Quick heuristic: MGRS usually has letters (e.g. "16SEG...")
-    if (/[a-zA-Z]/.test(trimmed)) {
-        const [lon, lat] = mgrs.toPoint(trimmed) as [number, number];
-        return { lat, lon, mgrsText: trimmed };
-    }
-
-    // Otherwise assume "lat lon" or "lat, lon"
-    const parts = trimmed
-        .split(/[\s,]+/)
-        .map((p) => p.trim())
-        .filter(Boolean);
-
-    if (parts.length < 2) throw new Error("Need two numbers");
-
-    const lat = Number(parts[0]);
-    const lon = Number(parts[1]);
-
-    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
-        throw new Error("Invalid numbers");
-    }
-
-    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
-        throw new Error("Coordinates out of range");
-    }
-
-    return { lat, lon };
-}
-
-/**
- * Drawer animation style (simple slide-in/out).
- * I kept this as a function because it depends on `isOpen`.
- */
-function getDrawerStyle(isOpen: boolean): React.CSSProperties {
-    return {
-        position: "absolute",
-        top: 70,
-        left: 0,
-        zIndex: 2500,
-        width: DRAWER_WIDTH,
-        maxHeight: "calc(100vh - 80px)",
-        overflow: "auto",
-        background: "rgba(30,30,30,0.95)",
-        color: "#f1f1f1",
-        border: "1px solid rgba(255,255,255,0.10)",
-        borderRadius: 10,
-        boxShadow: "0 10px 26px rgba(0,0,0,0.35)",
-        fontFamily: "system-ui, sans-serif",
-        fontSize: 13,
-        padding: 12,
-
-        // slide animation
-        transform: isOpen ? "translateX(0)" : `translateX(-${DRAWER_WIDTH + 24}px)`,
-        transition: "transform 180ms ease",
-
-        // prevents accidental text selection when dragging around
-        userSelect: "none",
-    };
-}
-
 /* ============================================================
    Main Map Component (reads/writes from context)
    ============================================================ */
@@ -189,6 +149,7 @@ function MapView() {
         zones: true,
         markers: true,
         heatIncidents: true,
+        mgrsGrid: false,
     });
 
     // Map state coming back from OpenLayersTest
@@ -199,6 +160,9 @@ function MapView() {
 
     const [lastClick, setLastClick] = useState<[number, number] | null>(null);
 
+    // Live position under the mouse (throttled by OpenLayersTest)
+    const [cursorLatLon, setCursorLatLon] = useState<LatLon | null>(null);
+
     // Marker bookkeeping
     const [markersCount, setMarkersCount] = useState(0);
 
@@ -213,28 +177,58 @@ function MapView() {
     // goToRequest acts like a “command” to OpenLayersTest (fly to + maybe drop marker)
     const [goToRequest, setGoToRequest] = useState<GoToRequest | null>(null);
 
-    // Event log is just for demo/visibility
-    const [eventLog, setEventLog] = useState<string[]>([]);
+    // Same idea for "fit this lat/lon box" (query bar commands)
+    const [fitBoundsRequest, setFitBoundsRequest] = useState<FitBoundsRequest | null>(null);
+
+    // Result of the last coordinate / query bar submit, shown under the bar
+    const [barFeedback, setBarFeedback] = useState<BarFeedback | null>(null);
+
+    // What clicks on the map do (drawer buttons or S/M/Z/R/P on the map)
+    const [interactionMode, setInteractionMode] = useState<InteractionMode>("addMarker");
 
-    // Central store
-    const { markers, getMarker } = useMapData();
+    // Drag markers / reshape zones
+    const [editMode, setEditMode] = useState(false);
+
+    // What "measure" mode measures
+    const [measureMode, setMeasureMode] = useState<MeasureMode>("distance");
+
+    // Icon category for markers dropped by clicks / the top bar
+    const [markerCategory, setMarkerCategory] = useState(DEFAULT_MARKER_CATEGORY);
+
+    // Group nearby markers into count bubbles
+    const [clusterMarkers, setClusterMarkers] = useState(false);
+
+    // Which BASE_LAYERS entry is showing
+    const [baseLayerId, setBaseLayerId] = useState(BASE_LAYERS[0].id);
+
+    // Query bar commands, the same set MapViewRef.runCommand uses
+    const commands = useMapCommands({
+        clearMarkers: () => setClearToken((t) => t + 1),
+        goTo: (lat, lon, zoom) => setGoToRequest({ lat, lon, zoom, dropMarker: false }),
+        fitBounds: (bounds, padding) => setFitBoundsRequest({ bounds, padding }),
+        setLayerVisible: (layer, visible) => setToggles((prev) => ({ ...prev, [layer]: visible })),
+        getLayerVisibility: () => toggles,
+        getMapInfo: () => info,
+    });
 
     /* ---------------- UI handlers ---------------- */
 
     /**
      * Top bar submit:
-     * - parse text (MGRS or lat/lon)
+     * - parse text (any format coordinateParser knows)
      * - create a goToRequest
      * - OpenLayersTest picks it up and animates the view
+     * Errors and guesses (swapped or ambiguous lon/lat, UTM band vs hemisphere) show under the bar.
      */
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
         try {
-            const { lat, lon, mgrsText } = parseCoordinateInput(coordText);
+            const parsed = parseCoordinate(coordText);
+            const [lat, lon] = parsed.latLon;
 
-            // If user typed lat/lon, we compute MGRS ourselves for the store
-            const computedMgrs = mgrsText ?? (mgrs.forward([lon, lat], 5) as string);
+            // Unless the user typed MGRS, we compute it ourselves for the store
+            const computedMgrs = parsed.mgrs ?? toMgrs(lat, lon);
 
             setGoToRequest({
                 lat,
@@ -243,73 +237,56 @@ function MapView() {
                 dropMarker: true,
                 mgrs: computedMgrs,
             });
+
+            const summary = `${COORDINATE_FORMAT_LABELS[parsed.format]}: ${lat.toFixed(5)}, ${lon.toFixed(5)}`;
+            setBarFeedback({
+                kind: parsed.warnings.length > 0 ? "warning" : "ok",
+                text: [summary, ...parsed.warnings].join(". "),
+                source: "coord",
+            });
         } catch (error) {
             const message = error instanceof Error ? error.message : "Invalid input";
-            alert(`${message}\n\nExpected format:\n• Lat, Lon: 33.75, -84.39\n• MGRS: 16SEG1234567890`);
+            setBarFeedback({
+                kind: "error",
+                text: `${message}. Examples: ${COORDINATE_EXAMPLES.join("  |  ")}`,
+                source: "coord",
+            });
         }
     };
 
-    const handleToggle =
-        (key: keyof Toggles) => (e: React.ChangeEvent<HTMLInputElement>) => {
-            setToggles((prev) => ({ ...prev, [key]: e.target.checked }));
-        };
-
     /**
-     * Central event handler coming from OpenLayersTest.
-     *
-     * NOTE: markerAdded is slightly special:
-     * we get the markerId, but the store update might not be committed
-     * at the exact moment this callback runs.
-     *
-     * So we do a tiny timeout and then read from the store. 
-     * but it works fine for UI/demo. (If this grows, we'd want a more robust approach.)
+     * Query bar: parse the phrase locally and run it through the same
+     * command set MapViewRef.runCommand uses.
      */
-    const handleMapEvent = useCallback(
-        (event: MapEvent) => {
-            const timestamp = new Date().toLocaleTimeString();
-            let logMessage = "";
-
-            switch (event.type) {
-                case "markerAdded": {
-                    // Wait a beat for state update, then pull details from store.
-                    setTimeout(() => {
-                        const marker = getMarker(event.markerId);
-                        if (!marker) return;
-
-                        const msg = `[${timestamp}] Marker added at ${marker.lat.toFixed(
-                            4
-                        )}, ${marker.lon.toFixed(4)} (${marker.mgrs})`;
-
-                        setEventLog((prev) => [msg, ...prev].slice(0, 10));
-                    }, 50);
-
-                    return; // handled async
-                }
-
-                case "markerRemoved": {
-                    logMessage = `[${timestamp}] Marker removed at ${event.coordinates[0].toFixed(
-                        4
-                    )}, ${event.coordinates[1].toFixed(4)}`;
-                    break;
-                }
+    const handleQuery = () => {
+        const parsed = parseMapCommand(query, {
+            zoom: info.zoom,
+            center: info.centerLatLon,
+            layers: toggles,
+        });
+
+        if (!parsed.ok) {
+            setBarFeedback({ kind: "error", text: parsed.message, source: "query" });
+            return;
+        }
 
-                case "zoneClicked": {
-                    logMessage = `[${timestamp}] Zone clicked: ${event.zoneId}`;
-                    break;
-                }
+        const result = commands.run(parsed.command.name, parsed.command.args);
+        if (result.ok) {
+            setBarFeedback({ kind: "ok", text: parsed.description, source: "query" });
+            setQuery("");
+        } else {
+            setBarFeedback({ kind: "error", text: result.error.message, source: "query" });
+        }
+    };
 
-                case "featureClicked": {
-                    logMessage = `[${timestamp}] ${event.featureType} clicked (${event.featureId})`;
-                    break;
-                }
-            }
+    /**
+     * Event log row clicked: fly there without dropping a marker.
+     */
+    const handleLocateEvent = (lat: number, lon: number) => {
+        setGoToRequest({ lat, lon, dropMarker: false });
+    };
 
-            if (logMessage) {
-                setEventLog((prev) => [logMessage, ...prev].slice(0, 10));
-            }
-        },
-        [getMarker]
-    );
+    const coordError = barFeedback?.source === "coord" && barFeedback.kind === "error";
 
     /* ============================================================
        Render
@@ -335,15 +312,33 @@ function MapView() {
 
                 <input
                     value={coordText}
-                    onChange={(e) => setCoordText(e.target.value)}
-                    placeholder="Enter MGRS or Lat/Lon (e.g., 33.75, -84.39 or 16SEG...)"
-                    style={{ ...INPUT_STYLE, flex: "0 0 420px" }}
+                    onChange={(e) => {
+                        setCoordText(e.target.value);
+                        if (barFeedback?.source === "coord") setBarFeedback(null);
+                    }}
+                    placeholder="Lat/Lon, DMS, MGRS or UTM (e.g., 33.75, -84.39 or 16SEG...)"
+                    style={{
+                        ...INPUT_STYLE,
+                        flex: "0 0 420px",
+                        borderColor: coordError ? FEEDBACK_COLORS.error : undefined,
+                    }}
                     aria-label="Coordinate input"
+                    aria-invalid={coordError}
                 />
 
                 <input
                     value={query}
-                    onChange={(e) => setQuery(e.target.value)}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        if (barFeedback?.source === "query") setBarFeedback(null);
+                    }}
+                    onKeyDown={(e) => {
+                        // Enter runs the query instead of submitting the coordinate form
+                        if (e.key === "Enter") {
+                            e.preventDefault();
+                            handleQuery();
+                        }
+                    }}
                     placeholder="Ask about risk, traffic, nearby ports..."
                     style={{ ...INPUT_STYLE, flex: "1 1 auto", minWidth: 200 }}
                     aria-label="Query input"
@@ -353,151 +348,84 @@ function MapView() {
                     Submit
                 </button>
 
-                {/* "Chat" button is just a placeholder right now */}
+                {/* Runs the query bar text (local command parser for now) */}
                 <button
                     type="button"
                     style={ICON_BTN_STYLE}
-                    onClick={() => console.log("Chat clicked with query:", query)}
-                    title="Chat"
-                    aria-label="Open chat"
+                    onClick={handleQuery}
+                    title="Run command"
+                    aria-label="Run command"
                 >
                     <span style={{ fontSize: 18, lineHeight: 1 }}>💬</span>
                 </button>
-            </form>
-
-            {/* Side Drawer */}
-            <div
-                style={getDrawerStyle(drawerOpen)}
-                onMouseDown={(e) => e.stopPropagation()} // prevents map from reacting
-            >
-                <div style={{ fontWeight: 800, fontSize: 14, marginBottom: 10 }}>
-                    Controls
-                </div>
-
-                <div style={{ opacity: 0.92, lineHeight: 1.5 }}>
-                    <div>
-                        Zoom:{" "}
-                        <code style={{ color: "#fff" }}>{info.zoom.toFixed(2)}</code>
-                    </div>
-                    <div>
-                        Center:{" "}
-                        <code style={{ color: "#fff" }}>
-                            {formatNumber(info.centerLatLon[0])},{" "}
-                            {formatNumber(info.centerLatLon[1])}
-                        </code>
-                    </div>
-                </div>
-
-                <button
-                    type="button"
-                    disabled={markersCount === 0}
-                    onClick={() => setClearToken((t) => t + 1)}
-                    style={{
-                        marginTop: 10,
-                        width: "100%",
-                        background: "#e9e9e9",
-                        color: "#111",
-                        border: "1px solid rgba(0,0,0,0.20)",
-                        borderRadius: 8,
-                        padding: "8px 10px",
-                        fontWeight: 700,
-                        cursor: markersCount ? "pointer" : "not-allowed",
-                        opacity: markersCount ? 1 : 0.7,
-                    }}
-                    aria-label="Clear all markers"
-                >
-                    Clear markers ({markersCount})
-                </button>
 
-                <div style={DIVIDER_STYLE}>
-                    <div style={{ fontWeight: 800, marginBottom: 8 }}>Overlays</div>
-
-                    <label style={ROW_STYLE}>
-                        <input
-                            type="checkbox"
-                            checked={toggles.zones}
-                            onChange={handleToggle("zones")}
-                            aria-label="Toggle zones"
-                        />
-                        Zones
-                    </label>
-
-                    <label style={ROW_STYLE}>
-                        <input
-                            type="checkbox"
-                            checked={toggles.markers}
-                            onChange={handleToggle("markers")}
-                            aria-label="Toggle markers"
-                        />
-                        Markers
-                    </label>
-
-                    <label style={ROW_STYLE}>
-                        <input
-                            type="checkbox"
-                            checked={toggles.heatIncidents}
-                            onChange={handleToggle("heatIncidents")}
-                            aria-label="Toggle heatmap"
-                        />
-                        Heatmap: Incidents
-                    </label>
-                </div>
-
-                <div style={{ marginTop: 12, opacity: 0.9 }}>
-                    Markers: <b>{markersCount}</b>
-                </div>
-
-                <div style={{ marginTop: 10, opacity: 0.9 }}>
-                    Last click:{" "}
-                    <code style={{ color: "#fff" }}>
-                        {lastClick
-                            ? `${formatNumber(lastClick[0])}, ${formatNumber(lastClick[1])}`
-                            : "—"}
-                    </code>
-                </div>
-
-                {/* Event Log */}
-                <div style={DIVIDER_STYLE}>
-                    <div style={{ fontWeight: 800, marginBottom: 8 }}>Event Log</div>
-
-                    <div style={{ fontSize: 11, opacity: 0.8, maxHeight: 150, overflow: "auto" }}>
-                        {eventLog.length === 0 && <div>No events yet...</div>}
-
-                        {eventLog.map((log, i) => (
-                            <div key={i} style={{ marginBottom: 4 }}>
-                                {log}
-                            </div>
-                        ))}
+                {barFeedback && (
+                    <div
+                        role={barFeedback.kind === "error" ? "alert" : "status"}
+                        style={{
+                            ...FEEDBACK_STYLE,
+                            // under whichever input it's about
+                            ...(barFeedback.source === "coord" ? { left: 56 } : { right: 60 }),
+                            background: FEEDBACK_COLORS[barFeedback.kind],
+                        }}
+                    >
+                        {barFeedback.text}
                     </div>
-                </div>
-
-                {/* Marker List (read from centralized store) */}
-                <div style={DIVIDER_STYLE}>
-                    <div style={{ fontWeight: 800, marginBottom: 8 }}>All Markers</div>
-
-                    <div style={{ fontSize: 11, opacity: 0.8, maxHeight: 100, overflow: "auto" }}>
-                        {markers.size === 0 && <div>No markers yet...</div>}
+                )}
+            </form>
 
-                        {Array.from(markers.values()).map((marker) => (
-                            <div key={marker.id} style={{ marginBottom: 4 }}>
-                                {marker.mgrs} @ {marker.lat.toFixed(3)}, {marker.lon.toFixed(3)}
-                            </div>
-                        ))}
-                    </div>
-                </div>
-            </div>
+            {/* Side Drawer */}
+            <MapControlDrawer
+                isOpen={drawerOpen}
+                onToggle={() => setDrawerOpen((v) => !v)}
+                mapInfo={info}
+                lastClick={lastClick}
+                cursorLatLon={cursorLatLon}
+                markersCount={markersCount}
+                onClearMarkers={() => setClearToken((t) => t + 1)}
+                toggles={toggles}
+                onToggleChange={(key, value) =>
+                    setToggles((prev) => ({ ...prev, [key]: value }))
+                }
+                onLocateEvent={handleLocateEvent}
+                interactionMode={interactionMode}
+                onInteractionModeChange={setInteractionMode}
+                editMode={editMode}
+                onEditModeChange={setEditMode}
+                measureMode={measureMode}
+                onMeasureModeChange={setMeasureMode}
+                baseLayers={BASE_LAYERS}
+                baseLayerId={baseLayerId}
+                onBaseLayerChange={setBaseLayerId}
+                clusterMarkers={clusterMarkers}
+                onClusterMarkersChange={setClusterMarkers}
+                markerCategory={markerCategory}
+                onMarkerCategoryChange={setMarkerCategory}
+                // sit below the top bar instead of at the very top
+                style={{ top: 70, maxHeight: "calc(100vh - 80px)" }}
+            />
 
             {/* Map itself */}
             <OpenLayersTest
                 showZones={toggles.zones}
                 showMarkers={toggles.markers}
                 showHeatIncidents={toggles.heatIncidents}
+                showMgrsGrid={toggles.mgrsGrid}
                 requestClearMarkers={clearToken}
                 goToRequest={goToRequest}
+                fitBoundsRequest={fitBoundsRequest}
                 onInfo={setInfo}
                 onLastClick={setLastClick}
                 onMarkersCount={setMarkersCount}
-                onMapEvent={handleMapEvent}
+                onPointerMove={setCursorLatLon}
+                interactionMode={interactionMode}
+                onInteractionModeChange={setInteractionMode}
+                measureMode={measureMode}
+                editMode={editMode}
+                baseLayers={BASE_LAYERS}
+                baseLayerId={baseLayerId}
+                clusterMarkers={clusterMarkers}
+                newMarkerCategory={markerCategory}
             />
         </div>
     );
@@ -510,10 +438,11 @@ function MapView() {
 /**
  * App root wraps everything in MapDataProvider.
  * That keeps marker data accessible from both the map + the UI.
+ * storageKey turns on localStorage persistence, so a reload keeps the session.
  */
 export default function App() {
     return (
-        <MapDataProvider>
+        <MapDataProvider storageKey="openlayers-test-session">
             <MapView />
         </MapDataProvider>
     );
@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import { useMapData } from "./MapDataContext";
+import type { MapEventType } from "./mapEvents";
+import { filterEventLog, eventCoordinates, eventLogToJSON, eventLogToCSV } from "./eventLog";
+import { downloadTextFile, timestampedFilename } from "./fileUtils";
+
+/* ============================================================
+   Event log panel (lives inside MapControlDrawer)
+   ============================================================
+   Reads the structured log from MapDataContext. Filters only
+   affect what's shown and exported; the log itself is untouched.
+*/
+
+type EventLogPanelProps = {
+  // Called when a row with coordinates is clicked (e.g. fly the map there)
+  onLocate?: (lat: number, lon: number) => void;
+};
+
+const INPUT_STYLE: React.CSSProperties = {
+  width: "100%",
+  boxSizing: "border-box",
+  background: "rgba(255,255,255,0.08)",
+  color: "#fff",
+  border: "1px solid rgba(255,255,255,0.25)",
+  borderRadius: 6,
+  padding: "4px 8px",
+  fontSize: 12,
+};
+
+const CHIP_STYLE: React.CSSProperties = {
+  border: "1px solid rgba(255,255,255,0.25)",
+  borderRadius: 10,
+  padding: "1px 8px",
+  fontSize: 11,
+  cursor: "pointer",
+};
+
+const BUTTON_STYLE: React.CSSProperties = {
+  flex: 1,
+  background: "#e9e9e9",
+  color: "#111",
+  border: "1px solid rgba(0,0,0,0.20)",
+  borderRadius: 8,
+  padding: "6px 8px",
+  fontWeight: 700,
+  fontSize: 12,
+  cursor: "pointer",
+};
+
+export default function EventLogPanel({ onLocate }: EventLogPanelProps) {
+  const { eventLog, clearEventLog } = useMapData();
+
+  const [search, setSearch] = useState("");
+  const [types, setTypes] = useState<MapEventType[]>([]);
+
+  // Only offer chips for types that actually occurred
+  const presentTypes = Array.from(new Set(eventLog.map((record) => record.event.type)));
+
+  const visible = filterEventLog(eventLog, { types, search });
+
+  const toggleType = (type: MapEventType) => {
+    setTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+  };
+
+  const handleExportJSON = () => {
+    downloadTextFile(timestampedFilename("map-events", "json"), eventLogToJSON(visible), "application/json");
+  };
+
+  const handleExportCSV = () => {
+    downloadTextFile(timestampedFilename("map-events", "csv"), eventLogToCSV(visible), "text/csv");
+  };
+
+  return (
+    <div>
+      <input
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search events..."
+        style={INPUT_STYLE}
+        aria-label="Search event log"
+      />
+
+      {/* Type filter: nothing selected = all types */}
+      {presentTypes.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginTop: 6 }}>
+          {presentTypes.map((type) => {
+            const active = types.includes(type);
+            return (
+              <button
+                key={type}
+                type="button"
+                onClick={() => toggleType(type)}
+                style={{
+                  ...CHIP_STYLE,
+                  background: active ? "#0a84ff" : "transparent",
+                  color: active ? "#fff" : "#ddd",
+                }}
+                aria-pressed={active}
+              >
+                {type}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div style={{ fontSize: 11, opacity: 0.8, maxHeight: 180, overflow: "auto", marginTop: 6 }}>
+        {visible.length === 0 && <div>{eventLog.length === 0 ? "No events yet..." : "No matching events"}</div>}
+
+        {/* Newest first */}
+        {[...visible].reverse().map((record) => {
+          const coords = eventCoordinates(record.event);
+          const time = new Date(record.timestamp).toLocaleTimeString();
+
+          return (
+            <div
+              key={record.seq}
+              onClick={coords && onLocate ? () => onLocate(coords[0], coords[1]) : undefined}
+              style={{ marginBottom: 4, cursor: coords && onLocate ? "pointer" : "default" }}
+              title={coords ? `${record.timestamp} - click to go there` : record.timestamp}
+            >
+              [{time}] {record.summary}
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+        <button type="button" onClick={handleExportJSON} disabled={visible.length === 0} style={BUTTON_STYLE}>
+          Export JSON
+        </button>
+        <button type="button" onClick={handleExportCSV} disabled={visible.length === 0} style={BUTTON_STYLE}>
+          Export CSV
+        </button>
+        <button type="button" onClick={clearEventLog} disabled={eventLog.length === 0} style={BUTTON_STYLE}>
+          Clear
+        </button>
+      </div>
+
+      <div style={{ fontSize: 11, opacity: 0.6, marginTop: 4 }}>
+        Showing {visible.length} of {eventLog.length}
+      </div>
+    </div>
+  );
+}
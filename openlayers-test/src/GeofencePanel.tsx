@@ -0,0 +1,126 @@
+import React, { useState } from "react";
+import { useMapData } from "./MapDataContext";
+import { eventCoordinates } from "./eventLog";
+
+/* ============================================================
+   Geofence alerts panel (lives inside MapControlDrawer)
+   ============================================================
+   Threshold + per-zone mute live in MapDataContext (outside undo
+   history, so Ctrl+Z never un-mutes a zone), and so do the alerts,
+   which outlive clearing or trimming the event log.
+*/
+
+type GeofencePanelProps = {
+  // Called when an alert is clicked (e.g. fly the map to the marker)
+  onLocate?: (lat: number, lon: number) => void;
+};
+
+const INPUT_STYLE: React.CSSProperties = {
+  width: 64,
+  background: "rgba(255,255,255,0.08)",
+  color: "#fff",
+  border: "1px solid rgba(255,255,255,0.25)",
+  borderRadius: 6,
+  padding: "2px 6px",
+  fontSize: 12,
+};
+
+const ALERT_COLOR = "#ff6b61";
+
+export default function GeofencePanel({ onLocate }: GeofencePanelProps) {
+  const {
+    zones,
+    geofenceAlerts: alerts,
+    geofenceThreshold,
+    setGeofenceThreshold,
+    mutedZoneIds,
+    setZoneAlertsMuted,
+  } = useMapData();
+
+  // What's typed in the threshold box; null = show the current threshold.
+  // Applied on blur / Enter so the field can be empty while editing.
+  const [thresholdDraft, setThresholdDraft] = useState<string | null>(null);
+
+  // Zones risky enough to alert (muted ones included, so they can be unmuted)
+  const watchedZones = Array.from(zones.values())
+    .filter((zone) => zone.riskScore >= geofenceThreshold)
+    .sort((a, b) => b.riskScore - a.riskScore);
+
+  const commitThreshold = () => {
+    if (thresholdDraft === null) return;
+
+    // Anything unusable just reverts to the current threshold
+    const threshold = Number(thresholdDraft);
+    if (thresholdDraft.trim() !== "" && Number.isFinite(threshold)) {
+      setGeofenceThreshold(Math.min(100, Math.max(0, threshold)));
+    }
+    setThresholdDraft(null);
+  };
+
+  return (
+    <div>
+      <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 12 }}>
+        Alert at risk ≥
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={5}
+          value={thresholdDraft ?? geofenceThreshold}
+          onChange={(e) => setThresholdDraft(e.target.value)}
+          onBlur={commitThreshold}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitThreshold();
+            if (e.key === "Escape") setThresholdDraft(null);
+          }}
+          style={INPUT_STYLE}
+          aria-label="Geofence risk threshold"
+        />
+      </label>
+
+      {/* Per-zone mute */}
+      <div style={{ fontSize: 11, opacity: 0.85, maxHeight: 100, overflow: "auto", marginTop: 6 }}>
+        {watchedZones.length === 0 && <div>No zones at or above {geofenceThreshold}</div>}
+
+        {watchedZones.map((zone) => {
+          const muted = mutedZoneIds.has(zone.id);
+
+          return (
+            <label key={zone.id} style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: 2 }}>
+              <input
+                type="checkbox"
+                checked={!muted}
+                onChange={(e) => setZoneAlertsMuted(zone.id, !e.target.checked)}
+                aria-label={`Alerts for ${zone.name}`}
+              />
+              <span style={{ opacity: muted ? 0.5 : 1 }}>
+                {zone.name} ({zone.riskScore}){muted && " - muted"}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      {/* Alerts, newest first */}
+      <div style={{ fontSize: 11, maxHeight: 140, overflow: "auto", marginTop: 8 }}>
+        {alerts.length === 0 && <div style={{ opacity: 0.8 }}>No alerts yet...</div>}
+
+        {[...alerts].reverse().map((record) => {
+          const coords = eventCoordinates(record.event);
+          const time = new Date(record.timestamp).toLocaleTimeString();
+
+          return (
+            <div
+              key={record.seq}
+              onClick={coords && onLocate ? () => onLocate(coords[0], coords[1]) : undefined}
+              style={{ marginBottom: 4, color: ALERT_COLOR, cursor: coords && onLocate ? "pointer" : "default" }}
+              title={coords ? `${record.timestamp} - click to go there` : record.timestamp}
+            >
+              ⚠ [{time}] {record.summary}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,21 @@
     useState,
     useCallback,
     useRef,
+    useEffect,
     ReactNode,
 } from "react";
-import * as mgrs from "mgrs";
+import { loadMapSession, saveMapSession } from "./mapSession";
+import type { MapViewState, MapSessionMigration } from "./mapSession";
+import { DEFAULT_MARKER_CATEGORY, getMarkerIcon } from "./markerIcons";
+import { createMapEventBus } from "./mapEvents";
+import type { MapEventBus, MapBusEvent } from "./mapEvents";
+import type { MapEvent } from "./types";
+import { describeMapEvent } from "./eventLog";
+import type { MapEventRecord } from "./eventLog";
+import { DEFAULT_COORDINATE_DISPLAY, toMgrs } from "./coordinateFormat";
+import { zoneContains } from "./spatial";
+import { changedMarkers, checkGeofences, DEFAULT_GEOFENCE_THRESHOLD } from "./geofence";
+import type { CoordinateDisplay } from "./coordinateFormat";
 
 /* ============================================================
    Types
@@ -16,10 +28,19 @@ export type MarkerData = {
     id: string;
     lat: number;
     lon: number;
-    mgrs: string;
+    mgrs: string; // "" beyond 80S / 84N, where MGRS isn't defined
     timestamp: number; // Might be useful later for sorting or analytics
+    category: string; // key into the marker icon registry (markerIcons.ts)
+    label: string;
+    color?: string; // overrides the category's pin color
+    notes?: string;
 };
 
+/**
+ * The user-editable part of a marker (everything but position/bookkeeping).
+ */
+export type MarkerDetails = Pick<MarkerData, "category" | "label" | "color" | "notes">;
+
 export type ZoneData = {
     id: string;
     name: string;
@@ -29,19 +50,150 @@ export type ZoneData = {
     owner?: string;
 };
 
+export type HeatPointData = {
+    id: string;
+    lat: number;
+    lon: number;
+    weight: number; // 0..1, HeatmapLayer intensity
+    name: string;
+    timestamp?: number; // when the incident happened, if known
+};
+
+/**
+ * Input for addZone. The id is optional so callers that already have a
+ * stable id (seed data, backend records) can keep it; otherwise we make one.
+ */
+export type NewZoneData = Omit<ZoneData, "id"> & { id?: string };
+
+/**
+ * Input for addHeatPoints. Same idea as NewZoneData; name falls back to
+ * "Incident" like the seeded points.
+ */
+export type NewHeatPointData = Omit<HeatPointData, "id" | "name"> & {
+    id?: string;
+    name?: string;
+};
+
+/**
+ * Extra knobs for mutations. `skipHistory` is for changes the user didn't
+ * make themselves (seed data), so undo doesn't remove them.
+ */
+export type MutationOptions = {
+    skipHistory?: boolean;
+};
+
+// One undo/redo step: the marker + zone maps as they were
+type HistoryEntry = {
+    markers: Map<string, MarkerData>;
+    zones: Map<string, ZoneData>;
+};
+
+// Older steps fall off the bottom past this
+const HISTORY_LIMIT = 100;
+
 type MapDataContextType = {
     // ---- Marker operations ----
     markers: Map<string, MarkerData>;
-    addMarker: (lat: number, lon: number, mgrsText?: string) => string;
+    addMarker: (lat: number, lon: number, mgrsText?: string, details?: Partial<MarkerDetails>) => string;
     removeMarker: (id: string) => void;
+    moveMarker: (id: string, lat: number, lon: number) => string;
     getMarker: (id: string) => MarkerData | undefined;
     getAllMarkers: () => MarkerData[];
     clearMarkers: () => void;
+    loadMarkers: (markers: MarkerData[]) => void;
+    // Markers + zones from one import as a single undo step
+    loadFeatures: (features: { markers?: MarkerData[]; zones?: ZoneData[] }) => void;
+    // Returns the fields that actually changed (empty = nothing to do)
+    updateMarker: (id: string, changes: Partial<MarkerDetails>) => Array<keyof MarkerDetails>;
 
     // ---- Zone operations ----
     zones: Map<string, ZoneData>;
+    addZone: (zone: NewZoneData, options?: MutationOptions) => string;
+    updateZone: (id: string, changes: Partial<Omit<ZoneData, "id">>) => void;
+    removeZone: (id: string, options?: MutationOptions) => void;
     getZone: (id: string) => ZoneData | undefined;
     getAllZones: () => ZoneData[];
+    clearZones: () => void;
+
+    // ---- Heat point operations ----
+    heatPoints: Map<string, HeatPointData>;
+    addHeatPoints: (points: NewHeatPointData[]) => string[];
+    removeHeatPoint: (id: string) => void;
+    getAllHeatPoints: () => HeatPointData[];
+    clearHeatPoints: () => void;
+
+    // ---- Spatial queries ----
+    // Unknown zone ids give an empty result rather than throwing.
+    getMarkersInZone: (zoneId: string) => MarkerData[];
+    getZonesContaining: (lat: number, lon: number) => ZoneData[];
+    getHeatWeightInZone: (zoneId: string) => number; // sum of heat point weights inside
+
+    // ---- Geofencing ----
+    // Any marker write (add, move, import, undo/redo) that puts a marker
+    // in a zone with riskScore >= this publishes a geofenceAlert event
+    // (see geofence.ts). Mutes are settings, not edits: they stay out of
+    // undo history.
+    geofenceThreshold: number;
+    setGeofenceThreshold: (threshold: number) => void;
+    mutedZoneIds: ReadonlySet<string>;
+    setZoneAlertsMuted: (zoneId: string, muted: boolean) => void;
+    // Alerts so far, oldest first. Kept apart from eventLog so clearing or
+    // trimming the log doesn't lose them (capped at eventLogLimit alerts).
+    geofenceAlerts: MapEventRecord[];
+
+    // ---- History ----
+    // Covers marker and zone mutations (not heat points or the view).
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+
+    // ---- View (camera) state ----
+    // Mostly for persistence: OpenLayersTest reports it and starts from it.
+    viewState: MapViewState | null;
+    setViewState: (view: MapViewState) => void;
+
+    // ---- Events ----
+    // subscribe("markerAdded", handler, { payload: true }) -> unsubscribe fn.
+    // Events are published after the store mutation they describe, so
+    // getters (and payloads) already reflect it.
+    subscribe: MapEventBus["subscribe"];
+    // `payload` overrides the store lookup (removals: the record is already gone)
+    publishMapEvent: (event: MapEvent, payload?: MapBusEvent["payload"]) => void;
+
+    // Every published event, oldest first, capped at eventLogLimit
+    eventLog: MapEventRecord[];
+    clearEventLog: () => void;
+
+    // ---- Display ----
+    // How coordinates are shown everywhere (drawer, popups, ...).
+    // Format with formatCoordinate(lat, lon, coordinateDisplay).
+    coordinateDisplay: CoordinateDisplay;
+    setCoordinateDisplay: (display: CoordinateDisplay) => void;
+};
+
+type MapDataProviderProps = {
+    children: ReactNode;
+
+    // When set, markers, zones and the view are saved to localStorage under
+    // this key and restored on mount. Leave unset for a throwaway session.
+    storageKey?: string;
+
+    // How long to wait after the last change before writing (default 500ms)
+    persistDebounceMs?: number;
+
+    // Upgrade sessions saved by an older schema version.
+    // Defaults to the built-in migrations in mapSession.ts.
+    migrateSession?: MapSessionMigration;
+
+    // How many events the structured event log keeps (oldest drop off first)
+    eventLogLimit?: number;
+
+    // Starting coordinate format (decimal degrees unless set)
+    defaultCoordinateDisplay?: CoordinateDisplay;
+
+    // Starting geofence risk threshold (80, the "high" bucket, unless set)
+    defaultGeofenceThreshold?: number;
 };
 
 const MapDataContext = createContext<MapDataContextType | null>(null);
@@ -61,31 +213,278 @@ function generateId(prefix: string): string {
    Provider
    ============================================================ */
 
-export function MapDataProvider({ children }: { children: ReactNode }) {
+export function MapDataProvider({
+    children,
+    storageKey,
+    persistDebounceMs = 500,
+    migrateSession,
+    eventLogLimit = 500,
+    defaultCoordinateDisplay = DEFAULT_COORDINATE_DISPLAY,
+    defaultGeofenceThreshold = DEFAULT_GEOFENCE_THRESHOLD,
+}: MapDataProviderProps) {
+    // Rehydrate once, before the first render, so the map mounts with the
+    // restored markers/zones/view instead of flashing empty.
+    const [restored] = useState(() =>
+        storageKey ? loadMapSession(storageKey, migrateSession) : null
+    );
+
     // Using Map instead of object because:
     // 1. Easy .size
     // 2. Clean deletes
     // 3. Preserves insertion order
-    const [markers, setMarkers] = useState(new Map<string, MarkerData>());
-    const [zones, setZones] = useState(new Map<string, ZoneData>());
+    const [markers, setMarkers] = useState(
+        () => new Map<string, MarkerData>(restored?.markers.map((m) => [m.id, m]))
+    );
+    const [zones, setZones] = useState(
+        () => new Map<string, ZoneData>(restored?.zones.map((z) => [z.id, z]))
+    );
+    const [viewState, setViewState] = useState<MapViewState | null>(restored?.view ?? null);
+    const [mutedZoneIds, setMutedZoneIds] = useState<ReadonlySet<string>>(
+        () => new Set(restored?.mutedZoneIds)
+    );
+    const [heatPoints, setHeatPoints] = useState(new Map<string, HeatPointData>());
 
     // Refs allow stable getter functions without causing re-renders
     const markersRef = useRef(markers);
     const zonesRef = useRef(zones);
+    const heatPointsRef = useRef(heatPoints);
 
     // Keep refs synced on every render
     markersRef.current = markers;
     zonesRef.current = zones;
+    heatPointsRef.current = heatPoints;
+
+    /* ---------------- Event bus ---------------- */
+
+    // One bus per provider, created once
+    const [eventBus] = useState(createMapEventBus);
+
+    // Looks up the record(s) an event refers to, for { payload: true } subscribers
+    const resolveEventPayload = useCallback((event: MapEvent): MapBusEvent["payload"] => {
+        switch (event.type) {
+            case "markerAdded":
+            case "markerRemoved":
+            case "markerMoved":
+            case "markerUpdated":
+                return markersRef.current.get(event.markerId);
+
+            case "clusterClicked":
+                return event.markerIds
+                    .map((id) => markersRef.current.get(id))
+                    .filter((m): m is MarkerData => m !== undefined);
+
+            case "zoneClicked":
+            case "zoneCreated":
+            case "zoneModified":
+                return zonesRef.current.get(event.zoneId);
+
+            case "geofenceAlert": {
+                const marker = markersRef.current.get(event.markerId);
+                const zone = zonesRef.current.get(event.zoneId);
+                return marker && zone ? { marker, zone } : undefined;
+            }
+
+            case "featureClicked": {
+                if (event.featureType === "marker") return markersRef.current.get(event.featureId);
+                if (event.featureType === "zone") return zonesRef.current.get(event.featureId);
+                return heatPointsRef.current.get(event.featureId);
+            }
+
+            default:
+                return undefined;
+        }
+    }, []);
+
+    /* ---------------- Event log ---------------- */
+
+    const [eventLog, setEventLog] = useState<MapEventRecord[]>([]);
+    const eventSeqRef = useRef(0);
+
+    const publishMapEvent = useCallback(
+        (event: MapEvent, payload?: MapBusEvent["payload"]): MapEventRecord => {
+            const resolved = payload ?? resolveEventPayload(event);
+
+            // Summary is written now, while labels/names still match what happened
+            const record: MapEventRecord = {
+                seq: ++eventSeqRef.current,
+                timestamp: new Date().toISOString(),
+                event,
+                summary: describeMapEvent({ ...event, payload: resolved } as MapBusEvent),
+            };
+            setEventLog((prev) => [...prev, record].slice(-eventLogLimit));
+
+            eventBus.publish(event, resolved);
+            return record;
+        },
+        [eventBus, resolveEventPayload, eventLogLimit]
+    );
+
+    const clearEventLog = useCallback(() => {
+        setEventLog([]);
+    }, []);
+
+    /* ---------------- Display ---------------- */
+
+    const [coordinateDisplay, setCoordinateDisplay] = useState(defaultCoordinateDisplay);
+
+    /* ---------------- Geofencing ---------------- */
+
+    const [geofenceThreshold, setGeofenceThresholdState] = useState(defaultGeofenceThreshold);
+
+    // commit() reads these, so it doesn't change identity with them.
+    // The setters below keep them in step with the state.
+    const geofenceThresholdRef = useRef(geofenceThreshold);
+    const mutedZoneIdsRef = useRef(mutedZoneIds);
+
+    // Zone ids each marker was inside when last checked, so a marker
+    // moving around within a zone only alerts on the way in. Restored
+    // markers start out inside wherever they already are.
+    const [geofenceInside] = useState(
+        () =>
+            new Map(
+                Array.from(markers.values(), (marker) => [
+                    marker.id,
+                    checkGeofences(marker, zones.values(), new Set(), geofenceThreshold, mutedZoneIds).inside,
+                ])
+            )
+    );
+
+    const [geofenceAlerts, setGeofenceAlerts] = useState<MapEventRecord[]>([]);
+
+    const setGeofenceThreshold = useCallback((threshold: number) => {
+        geofenceThresholdRef.current = threshold;
+        setGeofenceThresholdState(threshold);
+    }, []);
+
+    const setZoneAlertsMuted = useCallback((zoneId: string, muted: boolean) => {
+        const prev = mutedZoneIdsRef.current;
+        if (prev.has(zoneId) === muted) return;
+
+        const next = new Set(prev);
+        if (muted) next.add(zoneId);
+        else next.delete(zoneId);
+
+        mutedZoneIdsRef.current = next;
+        setMutedZoneIds(next);
+    }, []);
+
+    /**
+     * Runs after every marker write with the markers before and after it.
+     * Alerts go out on a microtask so they land after the caller's own
+     * markerAdded/markerMoved event.
+     */
+    const runGeofenceChecks = useCallback(
+        (prev: Map<string, MarkerData>, next: Map<string, MarkerData>) => {
+            const { placed, removedIds } = changedMarkers(prev, next);
+
+            removedIds.forEach((id) => geofenceInside.delete(id));
+
+            placed.forEach((marker) => {
+                const result = checkGeofences(
+                    marker,
+                    zonesRef.current.values(),
+                    geofenceInside.get(marker.id) ?? new Set(),
+                    geofenceThresholdRef.current,
+                    mutedZoneIdsRef.current
+                );
+                geofenceInside.set(marker.id, result.inside);
+
+                result.entered.forEach((zone) => {
+                    queueMicrotask(() => {
+                        const record = publishMapEvent({
+                            type: "geofenceAlert",
+                            markerId: marker.id,
+                            zoneId: zone.id,
+                            riskScore: zone.riskScore,
+                            coordinates: [marker.lat, marker.lon],
+                        });
+                        setGeofenceAlerts((prev) => [...prev, record].slice(-eventLogLimit));
+                    });
+                });
+            });
+        },
+        [geofenceInside, publishMapEvent, eventLogLimit]
+    );
+
+    /* ---------------- History (undo / redo) ---------------- */
+
+    // Snapshots are just the previous Map instances. Every mutation already
+    // builds a new Map, so keeping the old ones around costs almost nothing.
+    const undoStackRef = useRef<HistoryEntry[]>([]);
+    const redoStackRef = useRef<HistoryEntry[]>([]);
+
+    // Mirrors the stack sizes so buttons re-render when they change
+    const [historyFlags, setHistoryFlags] = useState({ canUndo: false, canRedo: false });
+
+    const syncHistoryFlags = useCallback(() => {
+        setHistoryFlags({
+            canUndo: undoStackRef.current.length > 0,
+            canRedo: redoStackRef.current.length > 0,
+        });
+    }, []);
+
+    /**
+     * Single write path for markers/zones.
+     * Refs are updated right away (not on next render) so several mutations in
+     * one tick each see the previous one's result, and each gets its own
+     * history entry. Also where geofences are checked, so imports and
+     * undo/redo alert the same as a click does.
+     */
+    const commit = useCallback(
+        (next: Partial<HistoryEntry>, options?: MutationOptions) => {
+            if (!options?.skipHistory) {
+                undoStackRef.current.push({
+                    markers: markersRef.current,
+                    zones: zonesRef.current,
+                });
+                if (undoStackRef.current.length > HISTORY_LIMIT) undoStackRef.current.shift();
+
+                // A new change invalidates anything we could have redone
+                redoStackRef.current = [];
+                syncHistoryFlags();
+            }
+
+            const prevMarkers = markersRef.current;
+            if (next.zones) {
+                zonesRef.current = next.zones;
+                setZones(next.zones);
+            }
+            if (next.markers) {
+                markersRef.current = next.markers;
+                setMarkers(next.markers);
+                runGeofenceChecks(prevMarkers, next.markers);
+            }
+        },
+        [syncHistoryFlags, runGeofenceChecks]
+    );
+
+    // Swap current state with the top of one stack, pushing current onto the other
+    const travel = useCallback(
+        (from: React.RefObject<HistoryEntry[]>, to: React.RefObject<HistoryEntry[]>) => {
+            const entry = from.current.pop();
+            if (!entry) return;
+
+            to.current.push({ markers: markersRef.current, zones: zonesRef.current });
+            commit(entry, { skipHistory: true });
+            syncHistoryFlags();
+        },
+        [commit, syncHistoryFlags]
+    );
+
+    const undo = useCallback(() => travel(undoStackRef, redoStackRef), [travel]);
+    const redo = useCallback(() => travel(redoStackRef, undoStackRef), [travel]);
 
     /* ---------------- Marker Logic ---------------- */
 
     const addMarker = useCallback(
-        (lat: number, lon: number, mgrsText?: string) => {
+        (lat: number, lon: number, mgrsText?: string, details?: Partial<MarkerDetails>) => {
             const id = generateId("marker");
 
             // Compute MGRS if not provided
-            const markerMgrs =
-                mgrsText ?? (mgrs.forward([lon, lat], 5) as string);
+            const markerMgrs = mgrsText ?? toMgrs(lat, lon) ?? "";
+
+            // Label defaults to the category's name ("Risk", "Marker", ...)
+            const category = details?.category ?? DEFAULT_MARKER_CATEGORY;
 
             const markerData: MarkerData = {
                 id,
@@ -93,27 +492,52 @@ export function MapDataProvider({ children }: { children: ReactNode }) {
                 lon,
                 mgrs: markerMgrs,
                 timestamp: Date.now(),
+                category,
+                label: details?.label ?? getMarkerIcon(category).label,
+                color: details?.color,
+                notes: details?.notes,
             };
 
             // Important: create a new Map instance so React detects change
-            setMarkers((prev) => {
-                const next = new Map(prev);
-                next.set(id, markerData);
-                return next;
-            });
+            const next = new Map(markersRef.current);
+            next.set(id, markerData);
+            commit({ markers: next });
 
             return id;
         },
-        []
+        [commit]
     );
 
-    const removeMarker = useCallback((id: string) => {
-        setMarkers((prev) => {
-            const next = new Map(prev);
+    const removeMarker = useCallback(
+        (id: string) => {
+            if (!markersRef.current.has(id)) return; // nothing to undo either
+
+            const next = new Map(markersRef.current);
             next.delete(id);
-            return next;
-        });
-    }, []);
+            commit({ markers: next });
+        },
+        [commit]
+    );
+
+    /**
+     * Move an existing marker. MGRS is recomputed for the new position
+     * and returned so the caller can update whatever it's displaying.
+     */
+    const moveMarker = useCallback(
+        (id: string, lat: number, lon: number) => {
+            const markerMgrs = toMgrs(lat, lon) ?? "";
+
+            const existing = markersRef.current.get(id);
+            if (!existing) return markerMgrs;
+
+            const next = new Map(markersRef.current);
+            next.set(id, { ...existing, lat, lon, mgrs: markerMgrs });
+            commit({ markers: next });
+
+            return markerMgrs;
+        },
+        [commit]
+    );
 
     const getMarker = useCallback((id: string) => {
         return markersRef.current.get(id);
@@ -124,12 +548,115 @@ export function MapDataProvider({ children }: { children: ReactNode }) {
     }, []);
 
     const clearMarkers = useCallback(() => {
-        setMarkers(new Map());
-    }, []);
+        if (markersRef.current.size === 0) return;
+
+        commit({ markers: new Map() });
+    }, [commit]);
+
+    /**
+     * Insert fully-formed markers (e.g. from an imported file), keeping
+     * their ids/MGRS/timestamps. Existing ids are overwritten.
+     * The whole batch is one undo step.
+     */
+    const loadMarkers = useCallback(
+        (incoming: MarkerData[]) => {
+            if (incoming.length === 0) return;
+
+            const next = new Map(markersRef.current);
+            incoming.forEach((marker) => next.set(marker.id, marker));
+            commit({ markers: next });
+        },
+        [commit]
+    );
+
+    /**
+     * loadMarkers for a whole file: markers and zones land in one commit,
+     * so a single undo takes the entire import back out.
+     */
+    const loadFeatures = useCallback(
+        ({ markers: newMarkers = [], zones: newZones = [] }: { markers?: MarkerData[]; zones?: ZoneData[] }) => {
+            const next: Partial<HistoryEntry> = {};
+
+            if (newMarkers.length > 0) {
+                next.markers = new Map(markersRef.current);
+                newMarkers.forEach((marker) => next.markers?.set(marker.id, marker));
+            }
+            if (newZones.length > 0) {
+                next.zones = new Map(zonesRef.current);
+                newZones.forEach((zone) => next.zones?.set(zone.id, zone));
+            }
+
+            if (next.markers || next.zones) commit(next);
+        },
+        [commit]
+    );
+
+    /**
+     * Edit a marker's label/notes/category/color (not its position;
+     * that's moveMarker). Unchanged values don't create an undo step.
+     * Returns the fields that changed, so callers only report real edits.
+     */
+    const updateMarker = useCallback(
+        (id: string, changes: Partial<MarkerDetails>) => {
+            const existing = markersRef.current.get(id);
+            if (!existing) return [];
+
+            const updated: MarkerData = { ...existing, ...changes };
+            const changed = (Object.keys(changes) as Array<keyof MarkerDetails>).filter(
+                (key) => updated[key] !== existing[key]
+            );
+            if (changed.length === 0) return [];
+
+            const next = new Map(markersRef.current);
+            next.set(id, updated);
+            commit({ markers: next });
+
+            return changed;
+        },
+        [commit]
+    );
 
     /* ---------------- Zone Logic ---------------- */
 
-    // Zones are currently read-only
+    const addZone = useCallback(
+        (zone: NewZoneData, options?: MutationOptions) => {
+            const id = zone.id ?? generateId("zone");
+            const zoneData: ZoneData = { ...zone, id };
+
+            // Same trick as markers: new Map instance so React sees the change.
+            // Re-adding an existing id just replaces it (handy for re-seeding).
+            const next = new Map(zonesRef.current);
+            next.set(id, zoneData);
+            commit({ zones: next }, options);
+
+            return id;
+        },
+        [commit]
+    );
+
+    const updateZone = useCallback(
+        (id: string, changes: Partial<Omit<ZoneData, "id">>) => {
+            const existing = zonesRef.current.get(id);
+            if (!existing) return; // nothing to update
+
+            const next = new Map(zonesRef.current);
+            next.set(id, { ...existing, ...changes, id });
+            commit({ zones: next });
+        },
+        [commit]
+    );
+
+    const removeZone = useCallback(
+        (id: string, options?: MutationOptions) => {
+            if (!zonesRef.current.has(id)) return;
+
+            const next = new Map(zonesRef.current);
+            next.delete(id);
+            commit({ zones: next }, options);
+        },
+        [commit]
+    );
+
     const getZone = useCallback((id: string) => {
         return zonesRef.current.get(id);
     }, []);
@@ -138,18 +665,136 @@ export function MapDataProvider({ children }: { children: ReactNode }) {
         return Array.from(zonesRef.current.values());
     }, []);
 
+    const clearZones = useCallback(() => {
+        if (zonesRef.current.size === 0) return;
+
+        commit({ zones: new Map() });
+    }, [commit]);
+
+    /* ---------------- Heat Point Logic ---------------- */
+
+    const addHeatPoints = useCallback((points: NewHeatPointData[]) => {
+        const created: HeatPointData[] = points.map((pt) => ({
+            ...pt,
+            id: pt.id ?? generateId("heat"),
+            name: pt.name ?? "Incident",
+        }));
+
+        // One state update for the whole batch (imports can be large)
+        setHeatPoints((prev) => {
+            const next = new Map(prev);
+            created.forEach((pt) => next.set(pt.id, pt));
+            return next;
+        });
+
+        return created.map((pt) => pt.id);
+    }, []);
+
+    const removeHeatPoint = useCallback((id: string) => {
+        setHeatPoints((prev) => {
+            if (!prev.has(id)) return prev;
+
+            const next = new Map(prev);
+            next.delete(id);
+            return next;
+        });
+    }, []);
+
+    const getAllHeatPoints = useCallback(() => {
+        return Array.from(heatPointsRef.current.values());
+    }, []);
+
+    const clearHeatPoints = useCallback(() => {
+        setHeatPoints(new Map());
+    }, []);
+
+    /* ---------------- Spatial Queries ---------------- */
+
+    const getMarkersInZone = useCallback((zoneId: string) => {
+        const zone = zonesRef.current.get(zoneId);
+        if (!zone) return [];
+
+        return Array.from(markersRef.current.values()).filter((m) => zoneContains(zone, m.lat, m.lon));
+    }, []);
+
+    const getZonesContaining = useCallback((lat: number, lon: number) => {
+        return Array.from(zonesRef.current.values()).filter((zone) => zoneContains(zone, lat, lon));
+    }, []);
+
+    const getHeatWeightInZone = useCallback((zoneId: string) => {
+        const zone = zonesRef.current.get(zoneId);
+        if (!zone) return 0;
+
+        let total = 0;
+        heatPointsRef.current.forEach((pt) => {
+            if (zoneContains(zone, pt.lat, pt.lon)) total += pt.weight;
+        });
+        return total;
+    }, []);
+
+    /* ---------------- Persistence ---------------- */
+
+    // Debounced write: dragging/zooming fires lots of updates, one save is enough
+    useEffect(() => {
+        if (!storageKey) return;
+
+        const timer = setTimeout(() => {
+            saveMapSession(storageKey, {
+                markers: Array.from(markers.values()),
+                zones: Array.from(zones.values()),
+                view: viewState,
+                mutedZoneIds: Array.from(mutedZoneIds),
+            });
+        }, persistDebounceMs);
+
+        return () => clearTimeout(timer);
+    }, [storageKey, persistDebounceMs, markers, zones, viewState, mutedZoneIds]);
+
     /* ---------------- Context Value ---------------- */
 
     const value: MapDataContextType = {
         markers,
         addMarker,
         removeMarker,
+        moveMarker,
         getMarker,
         getAllMarkers,
         clearMarkers,
+        loadMarkers,
+        loadFeatures,
+        updateMarker,
         zones,
+        addZone,
+        updateZone,
+        removeZone,
         getZone,
         getAllZones,
+        clearZones,
+        heatPoints,
+        addHeatPoints,
+        removeHeatPoint,
+        getAllHeatPoints,
+        clearHeatPoints,
+        getMarkersInZone,
+        getZonesContaining,
+        getHeatWeightInZone,
+        geofenceThreshold,
+        setGeofenceThreshold,
+        mutedZoneIds,
+        setZoneAlertsMuted,
+        geofenceAlerts,
+        undo,
+        redo,
+        canUndo: historyFlags.canUndo,
+        canRedo: historyFlags.canRedo,
+        viewState,
+        setViewState,
+        subscribe: eventBus.subscribe,
+        publishMapEvent,
+        eventLog,
+        clearEventLog,
+        coordinateDisplay,
+        setCoordinateDisplay,
     };
 
     return (
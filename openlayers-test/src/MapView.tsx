@@ -1,13 +1,16 @@
 import React, { useState, useCallback } from "react";
-import * as mgrs from "mgrs";
 import OpenLayersTest from "./OpenLayersTest";
-import type { OLInfo, GoToRequest, MapEvent } from "./types";
+import type { OLInfo, LatLon, InteractionMode, MeasureMode, GoToRequest, FitBoundsRequest, MapEvent, BaseLayerConfig, FeatureProperties } from "./types";
 import { useMapData } from "./MapDataContext";
+import { useMapCommands } from "./useMapCommands";
+import type { MapCommands, MapCommandResult } from "./mapCommands";
+import { toMgrs } from "./coordinateFormat";
 
 type Toggles = {
   zones: boolean;
   markers: boolean;
   heatIncidents: boolean;
+  mgrsGrid: boolean;
 };
 
 type MapViewProps = {
@@ -15,17 +18,29 @@ type MapViewProps = {
   onMarkerRemoved?: (markerId: string) => void;
   onZoneClicked?: (zoneId: string) => void;
   onMapEvent?: (event: MapEvent) => void;
+  onPointerMove?: (latLon: LatLon | null) => void;
+  interactionMode?: InteractionMode;
+  onInteractionModeChange?: (mode: InteractionMode) => void;
+  measureMode?: MeasureMode;
+  editMode?: boolean;
+  baseLayers?: BaseLayerConfig[];
+  baseLayerId?: string;
+  newMarkerCategory?: string;
+  renderPopup?: (feature: FeatureProperties) => React.ReactNode;
+  clusterMarkers?: boolean;
+  clusterDistance?: number;
   className?: string;
   style?: React.CSSProperties;
 };
 
 export default function MapView(props: MapViewProps) {
-  const { onMarkerAdded, onMarkerRemoved, onZoneClicked, onMapEvent: externalOnMapEvent, className, style } = props;
+  const { onMarkerAdded, onMarkerRemoved, onZoneClicked, onMapEvent: externalOnMapEvent, onPointerMove, interactionMode, onInteractionModeChange, measureMode, editMode, baseLayers, baseLayerId, newMarkerCategory, renderPopup, clusterMarkers, clusterDistance, className, style } = props;
 
   const [toggles, setToggles] = useState<Toggles>({
     zones: true,
     markers: true,
     heatIncidents: true,
+    mgrsGrid: false,
   });
 
   const [info, setInfo] = useState<OLInfo>({ zoom: 12, centerLatLon: [33.75, -84.39] });
@@ -33,9 +48,10 @@ export default function MapView(props: MapViewProps) {
   const [markersCount, setMarkersCount] = useState(0);
   const [clearToken, setClearToken] = useState(0);
   const [goToRequest, setGoToRequest] = useState<GoToRequest | null>(null);
+  const [fitBoundsRequest, setFitBoundsRequest] = useState<FitBoundsRequest | null>(null);
 
   // Access centralized data store
-  const { markers, getMarker } = useMapData();
+  const { getMarker, publishMapEvent } = useMapData();
 
   // Handle map events and notify parent
   const handleMapEvent = useCallback((event: MapEvent) => {
@@ -44,12 +60,11 @@ export default function MapView(props: MapViewProps) {
 
     switch (event.type) {
       case "markerAdded": {
-        setTimeout(() => {
-          const marker = getMarker(event.markerId);
-          if (marker) {
-            onMarkerAdded?.(marker);
-          }
-        }, 50);
+        // Events fire after the store commits, so the marker is already there
+        const marker = getMarker(event.markerId);
+        if (marker) {
+          onMarkerAdded?.(marker);
+        }
         break;
       }
       case "markerRemoved": {
@@ -65,7 +80,7 @@ export default function MapView(props: MapViewProps) {
 
   // Public method to programmatically go to location (for chatbot)
   const goToLocation = useCallback((lat: number, lon: number, zoom?: number, dropMarker?: boolean) => {
-    const mgrsText = mgrs.forward([lon, lat], 5) as string;
+    const mgrsText = toMgrs(lat, lon);
     setGoToRequest({
       lat,
       lon,
@@ -85,14 +100,41 @@ export default function MapView(props: MapViewProps) {
     setToggles(prev => ({ ...prev, [layer]: visible }));
   }, []);
 
-  // Expose methods to parent via ref (optional)
-  React.useImperativeHandle(props.ref, () => ({
-    goToLocation,
+  // Structured commands for the chatbot; see mapCommands.ts
+  const commands = useMapCommands({
     clearMarkers,
-    toggleLayer,
+    goTo: (lat, lon, zoom) => goToLocation(lat, lon, zoom),
+    fitBounds: (bounds, padding) => setFitBoundsRequest({ bounds, padding }),
+    setLayerVisible: toggleLayer,
+    getLayerVisibility: () => toggles,
     getMapInfo: () => info,
-    getMarkersCount: () => markersCount,
-  }));
+    // Same path as map clicks, so the event log and parent callbacks see chatbot edits too
+    emit: (event) => {
+      publishMapEvent(event);
+      handleMapEvent(event);
+    },
+  });
+
+  // Expose methods to parent via ref (optional)
+  React.useImperativeHandle(props.ref, () => {
+    return {
+      goToLocation,
+      clearMarkers,
+      toggleLayer,
+      getMapInfo: () => info,
+      getMarkersCount: () => markersCount,
+      addMarker: commands.addMarker,
+      removeMarker: commands.removeMarker,
+      createZone: commands.createZone,
+      fitBounds: commands.fitBounds,
+      queryFeatures: commands.queryFeatures,
+      getVisibleFeatures: commands.getVisibleFeatures,
+      getMarkersInZone: commands.getMarkersInZone,
+      getZonesContaining: commands.getZonesContaining,
+      getHeatWeightInZone: commands.getHeatWeightInZone,
+      runCommand: commands.run,
+    };
+  });
 
   return (
     <div className={className} style={style || { width: "100%", height: "100%" }}>
@@ -100,12 +142,25 @@ export default function MapView(props: MapViewProps) {
         showZones={toggles.zones}
         showMarkers={toggles.markers}
         showHeatIncidents={toggles.heatIncidents}
+        showMgrsGrid={toggles.mgrsGrid}
         requestClearMarkers={clearToken}
         goToRequest={goToRequest}
+        fitBoundsRequest={fitBoundsRequest}
         onInfo={setInfo}
         onLastClick={setLastClick}
         onMarkersCount={setMarkersCount}
         onMapEvent={handleMapEvent}
+        onPointerMove={onPointerMove}
+        interactionMode={interactionMode}
+        onInteractionModeChange={onInteractionModeChange}
+        measureMode={measureMode}
+        editMode={editMode}
+        baseLayers={baseLayers}
+        baseLayerId={baseLayerId}
+        newMarkerCategory={newMarkerCategory}
+        renderPopup={renderPopup}
+        clusterMarkers={clusterMarkers}
+        clusterDistance={clusterDistance}
       />
     </div>
   );
@@ -115,7 +170,20 @@ export default function MapView(props: MapViewProps) {
 export type MapViewRef = {
   goToLocation: (lat: number, lon: number, zoom?: number, dropMarker?: boolean) => void;
   clearMarkers: () => void;
-  toggleLayer: (layer: 'zones' | 'markers' | 'heatIncidents', visible: boolean) => void;
+  toggleLayer: (layer: 'zones' | 'markers' | 'heatIncidents' | 'mgrsGrid', visible: boolean) => void;
   getMapInfo: () => OLInfo;
   getMarkersCount: () => number;
+
+  // Chatbot commands: typed args in, MapCommandResult out (never throw)
+  addMarker: MapCommands["addMarker"];
+  removeMarker: MapCommands["removeMarker"];
+  createZone: MapCommands["createZone"];
+  fitBounds: MapCommands["fitBounds"];
+  queryFeatures: MapCommands["queryFeatures"];
+  getVisibleFeatures: MapCommands["getVisibleFeatures"];
+  getMarkersInZone: MapCommands["getMarkersInZone"];
+  getZonesContaining: MapCommands["getZonesContaining"];
+  getHeatWeightInZone: MapCommands["getHeatWeightInZone"];
+  // Tool-call entry point: command name + JSON args (see MAP_COMMAND_SCHEMAS)
+  runCommand: (name: string, args?: unknown) => MapCommandResult<unknown>;
 };
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+
+import { useMapData } from "./MapDataContext";
+import type { MarkerData, MarkerDetails } from "./MapDataContext";
+import { getMarkerCategories } from "./markerIcons";
+import { formatCoordinate } from "./coordinateFormat";
+import { COORDINATE_FORMAT_LABELS } from "./coordinateParser";
+
+/* ============================================================
+   Types
+   ============================================================ */
+
+type MarkerPopupProps = {
+    marker: MarkerData;
+    onSave: (changes: Partial<MarkerDetails>) => void;
+    onDelete: () => void;
+    onCenter: () => void;
+};
+
+/* ============================================================
+   Styles
+   ============================================================ */
+
+// The OL overlay element already has the dark "card" look (POPUP_STYLE),
+// so these only cover the controls inside it.
+const FIELD_STYLE: React.CSSProperties = {
+    display: "flex",
+    flexDirection: "column",
+    gap: 4,
+    marginBottom: 8,
+};
+
+const INPUT_STYLE: React.CSSProperties = {
+    height: 26,
+    borderRadius: 6,
+    border: "1px solid rgba(255,255,255,0.25)",
+    padding: "0 8px",
+    background: "rgba(255,255,255,0.08)",
+    color: "#fff",
+    fontSize: 13,
+};
+
+const BUTTON_STYLE: React.CSSProperties = {
+    flex: 1,
+    background: "#e9e9e9",
+    color: "#111",
+    border: "1px solid rgba(0,0,0,0.20)",
+    borderRadius: 8,
+    padding: "5px 8px",
+    fontWeight: 700,
+    fontSize: 12,
+    cursor: "pointer",
+};
+
+/* ============================================================
+   Component
+   ============================================================ */
+
+/**
+ * Editable marker card shown in the map popup.
+ * Edits are kept locally until Save, so one save = one undo step.
+ * (Parent keys this by marker id, so switching markers resets the draft.)
+ */
+export default function MarkerPopup({ marker, onSave, onDelete, onCenter }: MarkerPopupProps) {
+    const [label, setLabel] = useState(marker.label);
+    const [notes, setNotes] = useState(marker.notes ?? "");
+    const [category, setCategory] = useState(marker.category);
+    const [copied, setCopied] = useState(false);
+
+    // Shown (and copied) in the format picked in the drawer
+    const { coordinateDisplay } = useMapData();
+    const position = formatCoordinate(marker.lat, marker.lon, coordinateDisplay);
+
+    const dirty =
+        label.trim() !== marker.label ||
+        (notes.trim() || undefined) !== marker.notes ||
+        category !== marker.category;
+
+    const canSave = dirty && label.trim() !== "";
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSave) return;
+
+        onSave({
+            label: label.trim(),
+            notes: notes.trim() || undefined,
+            category,
+        });
+    };
+
+    const handleCopy = async () => {
+        const text = position;
+
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch {
+            // Clipboard API needs a secure context; let the user copy by hand
+            window.prompt("Copy coordinates:", text);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} onMouseDown={(e) => e.stopPropagation()}>
+            <label style={FIELD_STYLE}>
+                Name
+                <input
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    style={INPUT_STYLE}
+                    aria-label="Marker name"
+                />
+            </label>
+
+            <label style={FIELD_STYLE}>
+                Category
+                <select
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    style={INPUT_STYLE}
+                    aria-label="Marker category"
+                >
+                    {getMarkerCategories().map(({ category: value, label: text }) => (
+                        <option key={value} value={value}>
+                            {text}
+                        </option>
+                    ))}
+                </select>
+            </label>
+
+            <label style={FIELD_STYLE}>
+                Notes
+                <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={3}
+                    style={{ ...INPUT_STYLE, height: "auto", padding: "4px 8px", resize: "vertical" }}
+                    aria-label="Marker notes"
+                />
+            </label>
+
+            <div style={{ opacity: 0.9, marginBottom: 4 }}>
+                {COORDINATE_FORMAT_LABELS[coordinateDisplay.format]}: <b>{position}</b>
+            </div>
+            <div style={{ opacity: 0.7, marginBottom: 8 }}>
+                Added {new Date(marker.timestamp).toLocaleString()}
+            </div>
+
+            <div style={{ display: "flex", gap: 6, marginBottom: 6 }}>
+                <button
+                    type="submit"
+                    disabled={!canSave}
+                    style={{ ...BUTTON_STYLE, opacity: canSave ? 1 : 0.6, cursor: canSave ? "pointer" : "not-allowed" }}
+                >
+                    Save
+                </button>
+                <button type="button" onClick={onCenter} style={BUTTON_STYLE}>
+                    Center here
+                </button>
+            </div>
+
+            <div style={{ display: "flex", gap: 6 }}>
+                <button type="button" onClick={handleCopy} style={BUTTON_STYLE}>
+                    {copied ? "Copied" : "Copy coords"}
+                </button>
+                <button type="button" onClick={onDelete} style={{ ...BUTTON_STYLE, background: "#ff3b30", color: "#fff" }}>
+                    Delete
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -1,23 +1,31 @@
-import React, { useEffect, useRef } from "react";
-import * as mgrs from "mgrs";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
 
 import Map from "ol/Map.js";
 import View from "ol/View.js";
 import TileLayer from "ol/layer/Tile.js";
 import VectorLayer from "ol/layer/Vector.js";
 import HeatmapLayer from "ol/layer/Heatmap.js";
-import XYZ from "ol/source/XYZ.js";
 import VectorSource from "ol/source/Vector.js";
+import Cluster from "ol/source/Cluster.js";
 import Feature from "ol/Feature.js";
 import Point from "ol/geom/Point.js";
 import Polygon from "ol/geom/Polygon.js";
+import LineString from "ol/geom/LineString.js";
+import type Geometry from "ol/geom/Geometry.js";
 import Overlay from "ol/Overlay.js";
-import { fromLonLat, toLonLat } from "ol/proj.js";
+import Draw from "ol/interaction/Draw.js";
+import Modify from "ol/interaction/Modify.js";
+import Translate from "ol/interaction/Translate.js";
+import { fromLonLat, toLonLat, transformExtent } from "ol/proj.js";
 import Style from "ol/style/Style.js";
 import Icon from "ol/style/Icon.js";
 import Stroke from "ol/style/Stroke.js";
 import Fill from "ol/style/Fill.js";
 import Text from "ol/style/Text.js";
+import CircleStyle from "ol/style/Circle.js";
+import { boundingExtent } from "ol/extent.js";
+import type { FeatureLike } from "ol/Feature.js";
 import type MapBrowserEvent from "ol/MapBrowserEvent.js";
 
 // Types + type guards
@@ -27,21 +35,33 @@ import type {
     ZoneFeature,
     HeatFeature,
     OpenLayersTestProps,
+    MapEvent,
+    MeasureMode,
+    OLInfo,
+    BoundingBox,
     LonLat,
     LatLon,
 } from "./types";
 import { isMarkerFeature, isZoneFeature } from "./types";
 
-// Central store (markers are the source of truth for the rest of the app)
+// Central store (markers are the “source of truth” for the rest of the app)
 import { useMapData } from "./MapDataContext";
+import type { MarkerData, MarkerDetails, ZoneData } from "./MapDataContext";
+import type { MapBusEvent } from "./mapEvents";
+import ZoneForm from "./ZoneForm";
+import MarkerPopup from "./MarkerPopup";
+import { DEFAULT_BASE_LAYERS, createBaseLayerSource } from "./baseLayers";
+import { DEFAULT_MARKER_CATEGORY, getMarkerIcon, renderMarkerSvg } from "./markerIcons";
+import type { ZoneFormValues } from "./ZoneForm";
+import { measureLabel } from "./measure";
+import { interactionModeForKey, modeInspectsFeatures } from "./interactionModes";
+import { buildMgrsGrid } from "./mgrsGrid";
+import type { LonLatExtent, MgrsGridLevel } from "./mgrsGrid";
 
 /* ============================================================
    Config / constants
    ============================================================ */
 
-// Base tile server (OpenStreetMap)
-const TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
-
 // Default start view (Atlanta-ish)
 const DEFAULT_CENTER: LonLat = [-84.39, 33.75];
 const DEFAULT_ZOOM = 12;
@@ -49,6 +69,14 @@ const DEFAULT_ZOOM = 12;
 // Fly-to animation duration when goToRequest is triggered
 const ANIMATION_DURATION = 650;
 
+// At most one onPointerMove call per this many ms (parents re-render on each)
+const CURSOR_THROTTLE_MS = 50;
+
+// Marker clustering: merge distance (px) and how far a cluster click may zoom
+// in (markers on the exact same spot would otherwise zoom to the max)
+const DEFAULT_CLUSTER_DISTANCE = 40;
+const CLUSTER_EXPAND_MAX_ZOOM = 18;
+
 // Heatmap tuning knobs (play with these to change look/feel)
 const HEATMAP_CONFIG = {
     blur: 26,
@@ -79,8 +107,38 @@ const RISK_COLORS = {
     },
 } as const;
 
-// Inline popup card styling.
-// Kept here so we dont need a CSS file just for a small tooltip.
+// Sketch style while drawing / filling in a new zone (neutral so it doesn't
+// look like a real risk bucket yet)
+const DRAFT_ZONE_STYLE = new Style({
+    stroke: new Stroke({ width: 2, color: "rgba(0, 122, 255, 1)", lineDash: [6, 4] }),
+    fill: new Fill({ color: "rgba(0, 122, 255, 0.08)" }),
+});
+
+// Measure tool sketch + results (orange so it can't be mistaken for a zone)
+const MEASURE_COLOR = "rgba(255, 149, 0, 1)";
+const MEASURE_STROKE = new Stroke({ width: 2, color: MEASURE_COLOR, lineDash: [8, 6] });
+const MEASURE_FILL = new Fill({ color: "rgba(255, 149, 0, 0.12)" });
+const MEASURE_POINTER_STYLE = new Style({
+    image: new CircleStyle({ radius: 4, fill: new Fill({ color: MEASURE_COLOR }) }),
+});
+
+// MGRS grid: bigger squares get heavier lines; labels get a dark halo so
+// they read on both the light and dark base layers
+const MGRS_GRID_LINE_STYLES: Record<MgrsGridLevel, Style> = {
+    gzd: new Style({ stroke: new Stroke({ width: 2, color: "rgba(0, 0, 0, 0.75)" }) }),
+    "100km": new Style({ stroke: new Stroke({ width: 1.5, color: "rgba(0, 0, 0, 0.6)" }) }),
+    "10km": new Style({ stroke: new Stroke({ width: 1, color: "rgba(0, 0, 0, 0.45)" }) }),
+    "1km": new Style({ stroke: new Stroke({ width: 0.75, color: "rgba(0, 0, 0, 0.3)" }) }),
+};
+const MGRS_GRID_LABEL_FONTS: Record<MgrsGridLevel, string> = {
+    gzd: "bold 14px system-ui, sans-serif",
+    "100km": "bold 13px system-ui, sans-serif",
+    "10km": "11px system-ui, sans-serif",
+    "1km": "10px system-ui, sans-serif",
+};
+
+// Inline popup “card” styling.
+// Kept here so we don’t need a CSS file just for a small tooltip.
 const POPUP_STYLE = {
     background: "rgba(30,30,30,0.95)",
     color: "#fff",
@@ -94,14 +152,6 @@ const POPUP_STYLE = {
     pointerEvents: "auto",
 } as const;
 
-// Marker icon as inline SVG so we don't deal with asset imports
-const PIN_SVG = `
-<svg xmlns="http://www.w3.org/2000/svg" width="36" height="36" viewBox="0 0 24 24">
-  <path fill="#ff3b30" d="M12 2c-3.314 0-6 2.686-6 6c0 4.5 6 14 6 14s6-9.5 6-14c0-3.314-2.686-6-6-6z"/>
-  <circle cx="12" cy="8" r="2.3" fill="#ffffff"/>
-</svg>
-`;
-
 /* ============================================================
    Helpers / styling
    ============================================================ */
@@ -115,19 +165,154 @@ function svgDataUri(svg: string): string {
 }
 
 /**
- * Marker icon style.
- * Kept in a function so it's easy to reuse.
+ * Marker icon style, resolved from the icon registry by category.
+ * `color` (the marker's own) wins over the category's default color.
  */
-function markerStyle(): Style {
+function markerStyle(category: string, color?: string): Style {
+    const icon = getMarkerIcon(category);
+
     return new Style({
         image: new Icon({
-            src: svgDataUri(PIN_SVG),
-            anchor: [0.5, 1], // bottom-center of icon sits at the point
+            src: svgDataUri(renderMarkerSvg(category, color)),
+            anchor: icon.anchor ?? [0.5, 1], // bottom-center of icon sits at the point
             scale: 1,
         }),
     });
 }
 
+// One style per cluster size; OL calls the style function a lot while panning
+const clusterStyleCache: Record<number, Style> = {};
+
+/**
+ * Markers layer style. Plain marker features carry their own style, so this
+ * only sees cluster wrappers: a lone marker keeps its pin, a real cluster
+ * becomes a count bubble.
+ */
+function clusterStyle(feature: FeatureLike): Style {
+    const members = getClusterMembers(feature) ?? [];
+    const size = members.length;
+
+    // Cluster of one: use the marker's own (category) style
+    if (size === 1) return members[0].getStyle() as Style;
+
+    clusterStyleCache[size] ??= new Style({
+        image: new CircleStyle({
+            radius: Math.min(12 + Math.log2(size) * 3, 28),
+            fill: new Fill({ color: "rgba(255, 59, 48, 0.85)" }),
+            stroke: new Stroke({ color: "#fff", width: 2 }),
+        }),
+        text: new Text({
+            text: String(size),
+            fill: new Fill({ color: "#fff" }),
+            font: "bold 12px system-ui, sans-serif",
+        }),
+    });
+
+    return clusterStyleCache[size];
+}
+
+/**
+ * Member features of a cluster wrapper, or null for an ordinary feature.
+ */
+function getClusterMembers(feature: FeatureLike): Feature[] | null {
+    const members: unknown = feature.get("features");
+    return Array.isArray(members) ? (members as Feature[]) : null;
+}
+
+/**
+ * Style function for the measure layer and its Draw sketch: the shape plus a
+ * label at the end of the line / inside the polygon, recomputed as it changes.
+ */
+function createMeasureStyle(mode: MeasureMode) {
+    return (feature: FeatureLike): Style[] => {
+        const geometry = feature.getGeometry() as Geometry | undefined;
+        if (!geometry) return [];
+
+        // Draw's vertex under the cursor
+        if (geometry.getType() === "Point") return [MEASURE_POINTER_STYLE];
+
+        const styles = [new Style({ stroke: MEASURE_STROKE, fill: MEASURE_FILL })];
+
+        const label = measureLabel(geometry, mode);
+        if (label) {
+            styles.push(
+                new Style({
+                    geometry:
+                        geometry.getType() === "Polygon"
+                            ? (geometry as Polygon).getInteriorPoint()
+                            : new Point((geometry as LineString).getLastCoordinate()),
+                    text: new Text({
+                        text: label,
+                        font: "bold 12px system-ui, sans-serif",
+                        fill: new Fill({ color: "#fff" }),
+                        backgroundFill: new Fill({ color: "rgba(30,30,30,0.85)" }),
+                        padding: [3, 6, 3, 6],
+                        offsetY: -16,
+                    }),
+                })
+            );
+        }
+
+        return styles;
+    };
+}
+
+/**
+ * MGRS grid layer style: the line style for its level, or the label text
+ * for label points. Labels are decluttered by the layer.
+ */
+function mgrsGridStyle(feature: FeatureLike): Style {
+    const level = feature.get("level") as MgrsGridLevel;
+    if (feature.getGeometry()?.getType() === "LineString") return MGRS_GRID_LINE_STYLES[level];
+
+    // Zone/square names sit mid-cell; line digits sit at the view edge,
+    // nudged inside it
+    const centered = level === "gzd" || level === "100km";
+
+    return new Style({
+        text: new Text({
+            text: feature.get("text") as string,
+            font: MGRS_GRID_LABEL_FONTS[level],
+            fill: new Fill({ color: "#fff" }),
+            stroke: new Stroke({ color: "rgba(0, 0, 0, 0.8)", width: 3 }),
+            textAlign: centered ? "center" : "left",
+            offsetX: centered ? 0 : 4,
+            offsetY: centered ? 0 : -8,
+        }),
+    });
+}
+
+/**
+ * Rebuild the MGRS grid features for what the map is showing right now.
+ */
+function drawMgrsGrid(map: Map, source: VectorSource) {
+    const view = map.getView();
+    const size = map.getSize();
+    if (!size) return;
+
+    const extent = transformExtent(view.calculateExtent(size), "EPSG:3857", "EPSG:4326");
+    const grid = buildMgrsGrid(extent as LonLatExtent, view.getZoom() ?? DEFAULT_ZOOM);
+
+    source.clear();
+    source.addFeatures([
+        ...grid.lines.map(
+            (line) =>
+                new Feature({
+                    geometry: new LineString(line.coordinates.map((coord) => fromLonLat(coord))),
+                    level: line.level,
+                })
+        ),
+        ...grid.labels.map(
+            (label) =>
+                new Feature({
+                    geometry: new Point(fromLonLat(label.position)),
+                    level: label.level,
+                    text: label.text,
+                })
+        ),
+    ]);
+}
+
 /**
  * Color lookup for zone polygons based on risk score.
  * Very basic "bucket thresholds" logic.
@@ -187,37 +372,102 @@ function makeHeatPoint(
     return feature;
 }
 
-/* ============================================================
-   Popup HTML helpers
-   ============================================================ */
+/**
+ * Build the OL point feature for a marker from the store.
+ */
+function makeMarkerFeature(marker: MarkerData): Feature {
+    const lonLat: LonLat = [marker.lon, marker.lat];
+
+    const feature = new Feature({
+        geometry: new Point(fromLonLat(lonLat)),
+    });
+
+    const markerProps: MarkerFeature = {
+        id: marker.id,
+        type: "marker",
+        name: marker.label,
+        category: marker.category,
+        color: marker.color,
+        notes: marker.notes,
+        lonLat,
+        mgrs: marker.mgrs,
+    };
+
+    feature.setId(marker.id);
+    feature.setProperties(markerProps);
+    feature.setStyle(markerStyle(marker.category, marker.color));
+
+    return feature;
+}
 
 /**
- * Marker popup HTML.
- * Small note: markerData has timestamp too, but we aren't displaying it right now.
+ * Build the OL polygon feature for a zone from the store.
+ * Props mirror ZoneData so popups/click handlers can read them back.
  */
-function createMarkerPopupHTML(
-    marker: MarkerFeature,
-    markerData: { mgrs: string; timestamp: number }
-): string {
-    const [lon, lat] = marker.lonLat;
-
-    return `
-    <div style="font-weight:800; margin-bottom:6px;">${marker.name}</div>
-    <div style="opacity:.9; margin-bottom:4px;">
-      Lat/Lon: <b>${lat.toFixed(5)}, ${lon.toFixed(5)}</b>
-    </div>
-    <div style="opacity:.9; margin-bottom:6px;">MGRS: <b>${markerData.mgrs}</b></div>
-    <div style="opacity:.7;">Right-click to delete</div>
-  `;
+function makeZoneFeature(zone: ZoneData): Feature {
+    // Polygon expects projected coordinates
+    const polygon = new Polygon([zone.coordinates.map((coord) => fromLonLat(coord))]);
+    const feature = new Feature(polygon);
+
+    const zoneProps: ZoneFeature = {
+        id: zone.id,
+        type: "zone",
+        name: zone.name,
+        riskScore: zone.riskScore,
+        reason: zone.reason,
+        owner: zone.owner,
+        coordinates: zone.coordinates,
+    };
+
+    feature.setId(zone.id);
+    feature.setProperties(zoneProps);
+    feature.setStyle(polygonRiskStyle(zone.name, zone.riskScore));
+
+    return feature;
 }
 
-function createZonePopupHTML(zone: ZoneFeature): string {
-    return `
-    <div style="font-weight:800; margin-bottom:6px;">${zone.name}</div>
-    <div style="margin-bottom:6px;">Risk Score: <b>${zone.riskScore}</b></div>
-    ${zone.reason ? `<div style="margin-bottom:6px;">Reason: ${zone.reason}</div>` : ""}
-    ${zone.owner ? `<div style="opacity:.85;">Owner: ${zone.owner}</div>` : ""}
-  `;
+/* ============================================================
+   Popup content
+   ============================================================
+   Rendered through a React portal into the OL overlay, so names,
+   reasons etc. from external feeds are escaped like any other JSX text.
+*/
+
+// Marker labels listed in the zone popup before it says "+N more"
+const ZONE_POPUP_MARKER_LIMIT = 5;
+
+function ZonePopup({ zone }: { zone: ZoneFeature }) {
+    // Queried from the store, so it follows markers moved in/out while open
+    const { getMarkersInZone, getHeatWeightInZone } = useMapData();
+    const markersInside = getMarkersInZone(zone.id);
+    const heatWeight = getHeatWeightInZone(zone.id);
+    const extra = markersInside.length - ZONE_POPUP_MARKER_LIMIT;
+
+    return (
+        <>
+            <div style={{ fontWeight: 800, marginBottom: 6 }}>{zone.name}</div>
+            <div style={{ marginBottom: 6 }}>
+                Risk Score: <b>{zone.riskScore}</b>
+            </div>
+            {zone.reason && <div style={{ marginBottom: 6 }}>Reason: {zone.reason}</div>}
+            {zone.owner && <div style={{ opacity: 0.85, marginBottom: 6 }}>Owner: {zone.owner}</div>}
+            <div style={{ marginBottom: 6 }}>
+                Markers inside: <b>{markersInside.length}</b>
+                {markersInside.length > 0 && (
+                    <div style={{ fontSize: 12, opacity: 0.85 }}>
+                        {markersInside
+                            .slice(0, ZONE_POPUP_MARKER_LIMIT)
+                            .map((m) => m.label)
+                            .join(", ")}
+                        {extra > 0 && ` +${extra} more`}
+                    </div>
+                )}
+            </div>
+            <div>
+                Heat weight: <b>{heatWeight.toFixed(2)}</b>
+            </div>
+        </>
+    );
 }
 
 /* ============================================================
@@ -229,18 +479,68 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
         showZones,
         showMarkers,
         showHeatIncidents,
+        showMgrsGrid = false,
         onInfo,
         onLastClick,
         onMarkersCount,
+        onPointerMove,
         onMapEvent,
         requestClearMarkers,
         goToRequest,
+        fitBoundsRequest,
         seedZones,
         seedHeatPoints,
+        interactionMode = "addMarker",
+        onInteractionModeChange,
+        measureMode = "distance",
+        editMode = false,
+        baseLayers = DEFAULT_BASE_LAYERS,
+        baseLayerId,
+        newMarkerCategory = DEFAULT_MARKER_CATEGORY,
+        renderPopup,
+        clusterMarkers = false,
+        clusterDistance = DEFAULT_CLUSTER_DISTANCE,
     } = props;
 
+    const drawZoneMode = interactionMode === "drawZone";
+    const measuring = interactionMode === "measure";
+
     // Centralized store
-    const { markers, addMarker, removeMarker, getMarker, clearMarkers } = useMapData();
+    const {
+        markers,
+        addMarker,
+        removeMarker,
+        moveMarker,
+        updateMarker,
+        getMarker,
+        clearMarkers,
+        zones,
+        addZone,
+        updateZone,
+        removeZone,
+        getZone,
+        heatPoints,
+        addHeatPoints,
+        removeHeatPoint,
+        viewState,
+        setViewState,
+        undo,
+        redo,
+        publishMapEvent,
+        subscribe,
+    } = useMapData();
+
+    /**
+     * Every MapEvent goes to both the store's bus (subscribe) and the
+     * onMapEvent prop. Call it after the store mutation it describes.
+     */
+    const emitMapEvent = useCallback(
+        (event: MapEvent, payload?: MapBusEvent["payload"]) => {
+            publishMapEvent(event, payload);
+            onMapEvent?.(event);
+        },
+        [publishMapEvent, onMapEvent]
+    );
 
     // DOM node OpenLayers mounts into
     const mapDivRef = useRef<HTMLDivElement | null>(null);
@@ -253,9 +553,14 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
     const markersSourceRef = useRef(new VectorSource());
     const heatSourceRef = useRef(new VectorSource());
 
+    // Base tiles. Source is swapped in by the base layer effect below.
+    const baseLayerRef = useRef(new TileLayer());
+
     // Layers (render the sources)
     const zonesLayerRef = useRef(new VectorLayer({ source: zonesSourceRef.current }));
-    const markersLayerRef = useRef(new VectorLayer({ source: markersSourceRef.current }));
+    const markersLayerRef = useRef(
+        new VectorLayer({ source: markersSourceRef.current, style: clusterStyle })
+    );
     const heatLayerRef = useRef(
         new HeatmapLayer({
             source: heatSourceRef.current,
@@ -264,15 +569,58 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
         })
     );
 
-    // Popup overlay references
-    const popupElRef = useRef<HTMLDivElement | null>(null);
+    // MGRS grid, rebuilt for the visible extent after every move while shown.
+    // Drawing only: clicks never hit it (see the click/contextmenu handlers).
+    const mgrsGridLayerRef = useRef(
+        new VectorLayer({ source: new VectorSource(), style: mgrsGridStyle, declutter: true })
+    );
+
+    // The init effect's moveend handler reads this, so the grid follows
+    // whichever map instance is current
+    const showMgrsGridRef = useRef(showMgrsGrid);
+
+    // Sketch layer for a zone being drawn. Owns its source so we never have to
+    // read another ref while rendering.
+    const draftLayerRef = useRef(
+        new VectorLayer({ source: new VectorSource(), style: DRAFT_ZONE_STYLE })
+    );
+
+    // Polygon that's been drawn but not saved yet (form is open while set)
+    const [pendingZone, setPendingZone] = useState<{
+        coordinates: LonLat[];
+        interiorLatLon: LatLon;
+    } | null>(null);
+
+    // Finished measurements (the measure tool's Draw writes into this)
+    const measureLayerRef = useRef(new VectorLayer({ source: new VectorSource() }));
+
+    // The click handler lives inside the init effect, so it reads this ref
+    // to know what a click means right now.
+    const interactionModeRef = useRef(interactionMode);
+
+    // Last OLInfo sent, so a mode change can re-report it
+    const lastInfoRef = useRef<OLInfo | null>(null);
+
+    // Same idea for the category new markers get
+    const newMarkerCategoryRef = useRef(newMarkerCategory);
+
+    // Popup overlay. Its element is also the portal target for the popup
+    // content, so it lives in state (stable, and readable during render).
+    const [popupEl] = useState(() => document.createElement("div"));
     const popupOverlayRef = useRef<Overlay | null>(null);
 
+    // Feature the popup is showing (props as of the click)
+    const [popupFeature, setPopupFeature] = useState<FeatureProperties | null>(null);
+
+    // Which feature the popup is showing, so we can close it if that
+    // feature disappears (delete, clear, undo...)
+    const popupFeatureIdRef = useRef<string | null>(null);
+
     /**
      * Map initialization:
      * - create map + layers
      * - create popup overlay
-     * - seed zones and heat points
+     * - seed zones and heat points (into the store)
      * - wire up click handlers
      *
      * NOTE: Dependency list intentionally mirrors your original file
@@ -288,26 +636,30 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
         const preventContextMenu = (e: MouseEvent) => e.preventDefault();
         mapDiv.addEventListener("contextmenu", preventContextMenu);
 
-        // Base tiles
-        const raster = new TileLayer({
-            source: new XYZ({ url: TILE_URL, maxZoom: 19 }),
-        });
-
-        // Camera view
+        // Camera view (start where a restored session left off, if any)
         const view = new View({
-            center: fromLonLat(DEFAULT_CENTER),
-            zoom: DEFAULT_ZOOM,
+            center: fromLonLat(
+                viewState ? [viewState.center[1], viewState.center[0]] : DEFAULT_CENTER
+            ),
+            zoom: viewState?.zoom ?? DEFAULT_ZOOM,
         });
 
         // Create the OL map instance
         const map = new Map({
             target: mapDiv,
-            layers: [raster, heatLayerRef.current, zonesLayerRef.current, markersLayerRef.current],
+            layers: [
+                baseLayerRef.current,
+                mgrsGridLayerRef.current,
+                heatLayerRef.current,
+                zonesLayerRef.current,
+                draftLayerRef.current,
+                markersLayerRef.current,
+                measureLayerRef.current,
+            ],
             view,
         });
 
-        // Popup overlay element
-        const popupEl = document.createElement("div");
+        // Popup overlay element (content is portaled in, see render)
         Object.assign(popupEl.style, POPUP_STYLE);
 
         const popup = new Overlay({
@@ -318,7 +670,6 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
         });
 
         map.addOverlay(popup);
-        popupElRef.current = popupEl;
         popupOverlayRef.current = popup;
 
         /* ---------------- Seed zones ---------------- */
@@ -339,29 +690,14 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
                 },
             ];
 
-        zonesToSeed.forEach((zone, index) => {
-            const id = `zone-${index}`;
-
-            // Polygon expects projected coordinates
-            const polygon = new Polygon([zone.coordinates.map((coord) => fromLonLat(coord))]);
-            const feature = new Feature(polygon);
-
-            const zoneProps: ZoneFeature = {
-                id,
-                type: "zone",
-                name: zone.name,
-                riskScore: zone.riskScore,
-                reason: zone.reason,
-                owner: zone.owner,
-                coordinates: zone.coordinates,
-            };
-
-            feature.setId(id);
-            feature.setProperties(zoneProps);
-            feature.setStyle(polygonRiskStyle(zone.name, zone.riskScore));
-
-            zonesSourceRef.current.addFeature(feature);
-        });
+        // Seeds go through the store like any other zone, so the sync
+        // effect below is the only place that builds zone features.
+        // A restored session may already hold (an edited copy of) a seed, so
+        // only add the ones the store doesn't know about.
+        const seededZoneIds = zonesToSeed
+            .map((zone, index) => ({ ...zone, id: `zone-${index}` }))
+            .filter((zone) => !getZone(zone.id))
+            .map((zone) => addZone(zone, { skipHistory: true })); // seeds aren't undoable
 
         /* ---------------- Seed heat points ---------------- */
 
@@ -375,10 +711,9 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
                 { lon: -84.41, lat: 33.748, weight: 0.65, name: "Incident Cluster 3" },
             ];
 
-        heatSourceRef.current.addFeatures(
-            heatPointsToSeed.map((pt, i) =>
-                makeHeatPoint(`heat-${i}`, pt.lon, pt.lat, pt.weight, pt.name)
-            )
+        // Same as zones: seed the store, the heat sync effect draws them
+        const seededHeatIds = addHeatPoints(
+            heatPointsToSeed.map((pt, i) => ({ ...pt, id: `heat-${i}` }))
         );
 
         /* ---------------- HUD / info updates ---------------- */
@@ -391,13 +726,68 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
 
             // The app wants [lat, lon]
             const centerLatLon: LatLon = [centerLonLat[1], centerLonLat[0]];
-            onInfo?.({ zoom, centerLatLon });
+
+            // Visible area in lat/lon (size is unknown until the map has laid out)
+            const size = map.getSize();
+            let bounds: BoundingBox | undefined;
+            if (size) {
+                const [west, south, east, north] = transformExtent(
+                    view.calculateExtent(size),
+                    "EPSG:3857",
+                    "EPSG:4326"
+                );
+                bounds = { south, west, north, east };
+            }
+
+            lastInfoRef.current = { zoom, centerLatLon, bounds, interactionMode: interactionModeRef.current };
+            onInfo?.(lastInfoRef.current);
+
+            // Store copy is what gets persisted/restored
+            setViewState({ center: centerLatLon, zoom });
         };
 
         map.on("moveend", updateInfo);
         updateInfo();
 
-        /* ---------------- Left click: popup OR add marker ---------------- */
+        /* ---------------- MGRS grid ---------------- */
+
+        const gridLayer = mgrsGridLayerRef.current;
+        const gridSource = gridLayer.getSource();
+
+        const updateGrid = () => {
+            if (showMgrsGridRef.current && gridSource) drawMgrsGrid(map, gridSource);
+        };
+
+        map.on("moveend", updateGrid);
+        updateGrid();
+
+        /* ---------------- Cursor readout (throttled) ---------------- */
+
+        // Latest position wins; the timer just limits how often we report it
+        let pendingCursor: LatLon | null = null;
+        let cursorTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const reportCursor = (latLon: LatLon | null) => {
+            pendingCursor = latLon;
+            if (cursorTimer !== null) return;
+
+            cursorTimer = setTimeout(() => {
+                cursorTimer = null;
+                onPointerMove?.(pendingCursor);
+            }, CURSOR_THROTTLE_MS);
+        };
+
+        const pointerMoveHandler = (evt: MapBrowserEvent) => {
+            const lonLat = toLonLat(evt.coordinate) as LonLat;
+            reportCursor([lonLat[1], lonLat[0]]);
+        };
+
+        const pointerLeaveHandler = () => reportCursor(null);
+
+        map.on("pointermove", pointerMoveHandler);
+        mapDiv.addEventListener("pointerleave", pointerLeaveHandler);
+
+        /* ---------------- Left click: depends on interactionMode ---------------- */
 
         const clickHandler = (evt: MapBrowserEvent<UIEvent>) => {
             const lonLat = toLonLat(evt.coordinate) as LonLat; // [lon, lat]
@@ -405,89 +795,95 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
 
             onLastClick?.(latLon);
 
+            // Draw / measure tools own clicks while they're active; pan ignores them
+            const mode = interactionModeRef.current;
+            if (!modeInspectsFeatures(mode)) return;
+
             // If we clicked a feature, OpenLayers gives it to us.
-            const clickedFeature = map.forEachFeatureAtPixel(evt.pixel, (f) => f) as Feature | undefined;
+            let clickedFeature = map.forEachFeatureAtPixel(evt.pixel, (f) => f, {
+                layerFilter: (layer) => layer !== gridLayer,
+            }) as Feature | undefined;
 
-            // If a feature was clicked AND we have popup refs, show something.
-            if (clickedFeature && popupElRef.current && popupOverlayRef.current) {
+            // Clustered markers: a real cluster zooms in to spread out,
+            // a cluster of one behaves exactly like the marker inside it.
+            const clusterMembers = clickedFeature && getClusterMembers(clickedFeature);
+
+            if (clusterMembers && clusterMembers.length > 1) {
+                popupOverlayRef.current?.setPosition(undefined);
+
+                emitMapEvent({
+                    type: "clusterClicked",
+                    // Store ids (features are built from the store with the same id)
+                    markerIds: clusterMembers
+                        .map((f) => String(f.getId()))
+                        .filter((id) => getMarker(id) !== undefined),
+                    coordinates: latLon,
+                });
+
+                const extent = boundingExtent(
+                    clusterMembers.map((f) => (f.getGeometry() as Point).getCoordinates())
+                );
+
+                view.fit(extent, {
+                    duration: ANIMATION_DURATION,
+                    padding: [80, 80, 80, 80],
+                    maxZoom: CLUSTER_EXPAND_MAX_ZOOM,
+                });
+                return;
+            }
+
+            if (clusterMembers) clickedFeature = clusterMembers[0];
+
+            // If a feature was clicked AND we have the popup overlay, show something.
+            if (clickedFeature && popupOverlayRef.current) {
                 const props = clickedFeature.getProperties() as FeatureProperties;
 
                 // Generic "feature clicked" event
-                onMapEvent?.({
+                emitMapEvent({
                     type: "featureClicked",
                     featureType: props.type,
                     featureId: props.id,
                     coordinates: latLon,
                 });
 
-                // Marker clicked
+                // Marker clicked: the editable panel renders from the store
                 if (isMarkerFeature(props)) {
-                    const markerData = getMarker(props.id);
-
-                    if (markerData) {
-                        popupElRef.current.innerHTML = createMarkerPopupHTML(props, markerData);
-                    } else {
-                        // Fallback: show from feature props (store might be briefly out of sync)
-                        popupElRef.current.innerHTML = `
-              <div style="font-weight:800; margin-bottom:6px;">${props.name}</div>
-              <div style="opacity:.9; margin-bottom:4px;">
-                Lat/Lon: <b>${props.lonLat[1].toFixed(5)}, ${props.lonLat[0].toFixed(5)}</b>
-              </div>
-              ${props.mgrs ? `<div style="opacity:.9; margin-bottom:6px;">MGRS: <b>${props.mgrs}</b></div>` : ""}
-              <div style="opacity:.7;">Right-click to delete</div>
-            `;
-                    }
+                    setPopupFeature(props);
 
                     popupOverlayRef.current.setPosition(evt.coordinate);
+                    popupFeatureIdRef.current = props.id;
                     return; // don't also drop a marker
                 }
 
                 // Zone clicked
                 if (isZoneFeature(props)) {
-                    onMapEvent?.({
+                    emitMapEvent({
                         type: "zoneClicked",
                         zoneId: props.id,
                         coordinates: latLon,
                     });
 
-                    popupElRef.current.innerHTML = createZonePopupHTML(props);
+                    setPopupFeature(props);
                     popupOverlayRef.current.setPosition(evt.coordinate);
+                    popupFeatureIdRef.current = props.id;
                     return;
                 }
             } else {
-                // Clicked empty space: hide popup
+                // Clicked empty space: hide popup (and drop any unsaved marker edits)
                 popupOverlayRef.current?.setPosition(undefined);
+                setPopupFeature(null);
             }
 
-            // Only add markers if the markers layer is enabled/visible
-            if (!markersLayerRef.current.getVisible()) return;
-
-            // mgrs.forward expects [lon, lat]
-            const markerMgrs = mgrs.forward([lonLat[0], lonLat[1]], 5) as string;
-
-            // Store uses (lat, lon, mgrs) in that order
-            const markerId = addMarker(latLon[0], latLon[1], markerMgrs);
+            // Only "addMarker" mode drops markers, and only onto a visible layer
+            if (mode !== "addMarker" || !markersLayerRef.current.getVisible()) return;
 
-            // Create OL feature for marker rendering
-            const marker = new Feature({
-                geometry: new Point(fromLonLat(lonLat)),
+            // Store uses (lat, lon) in that order and computes MGRS itself.
+            // The marker sync effect draws it; no OL work needed here.
+            const markerId = addMarker(latLon[0], latLon[1], undefined, {
+                category: newMarkerCategoryRef.current,
             });
 
-            const markerProps: MarkerFeature = {
-                id: markerId,
-                type: "marker",
-                name: "Marker",
-                lonLat,
-                mgrs: markerMgrs,
-            };
-
-            marker.setId(markerId);
-            marker.setProperties(markerProps);
-            marker.setStyle(markerStyle());
-
-            markersSourceRef.current.addFeature(marker);
-
-            onMapEvent?.({
+            emitMapEvent({
                 type: "markerAdded",
                 coordinates: latLon,
                 markerId,
@@ -497,12 +893,22 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
         /* ---------------- Right click: delete marker ---------------- */
 
         const contextMenuHandler = (evt: MapBrowserEvent<UIEvent>) => {
+            // Sketching / panning: right click isn't a delete
+            if (!modeInspectsFeatures(interactionModeRef.current)) return;
+
             // Don't delete if markers layer isn't visible (feels weird)
             if (!markersLayerRef.current.getVisible()) return;
 
-            const clickedFeature = map.forEachFeatureAtPixel(evt.pixel, (f) => f) as Feature | undefined;
-            if (!clickedFeature) return;
+            const hit = map.forEachFeatureAtPixel(evt.pixel, (f) => f, {
+                layerFilter: (layer) => layer !== gridLayer,
+            }) as Feature | undefined;
+            if (!hit) return;
 
+            // Only single markers can be deleted; right-clicking a cluster does nothing
+            const clusterMembers = getClusterMembers(hit);
+            if (clusterMembers && clusterMembers.length > 1) return;
+
+            const clickedFeature = clusterMembers?.[0] ?? hit;
             const props = clickedFeature.getProperties() as FeatureProperties;
             if (!isMarkerFeature(props)) return;
 
@@ -511,18 +917,20 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
             const [lon, lat] = props.lonLat;
             const latLon: LatLon = [lat, lon];
 
-            // 1) update store
+            // Store only; the marker sync effect removes the feature.
+            // Grab the record first so bus subscribers still get a payload.
+            const removed = getMarker(markerId);
             removeMarker(markerId);
-
-            // 2) update map layer
-            markersSourceRef.current.removeFeature(clickedFeature);
             popupOverlayRef.current?.setPosition(undefined);
 
-            onMapEvent?.({
-                type: "markerRemoved",
-                markerId,
-                coordinates: latLon,
-            });
+            emitMapEvent(
+                {
+                    type: "markerRemoved",
+                    markerId,
+                    coordinates: latLon,
+                },
+                removed
+            );
         };
 
         map.on("singleclick", clickHandler);
@@ -535,13 +943,21 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
             map.un("singleclick", clickHandler);
             map.un("contextmenu", contextMenuHandler);
             map.un("moveend", updateInfo);
+            map.un("moveend", updateGrid);
+            map.un("pointermove", pointerMoveHandler);
 
             mapDiv.removeEventListener("contextmenu", preventContextMenu);
+            mapDiv.removeEventListener("pointerleave", pointerLeaveHandler);
+            if (cursorTimer !== null) clearTimeout(cursorTimer);
+
+            // Seeds belong to this map instance; drop them so a new seed set
+            // doesn't pile on top of the old one.
+            seededZoneIds.forEach((id) => removeZone(id, { skipHistory: true }));
+            seededHeatIds.forEach((id) => removeHeatPoint(id));
 
             map.setTarget(undefined);
 
             mapRef.current = null;
-            popupElRef.current = null;
             popupOverlayRef.current = null;
         };
     }, [seedZones, seedHeatPoints]);
@@ -555,6 +971,344 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
         onMarkersCount?.(markers.size);
     }, [markers.size, onMarkersCount]);
 
+    // Keep marker pins in sync with the store.
+    // Anything that calls addMarker/removeMarker/clearMarkers (click handler,
+    // goToRequest, MapView, the chatbot) shows up here without touching OL.
+    useEffect(() => {
+        const source = markersSourceRef.current;
+
+        source.clear();
+        source.addFeatures(Array.from(markers.values()).map(makeMarkerFeature));
+    }, [markers]);
+
+    // Keep zone polygons in sync with the store.
+    // Zones can come from seeds, the backend or the chatbot; rebuilding the
+    // source from `zones` means none of them need to touch OL directly.
+    useEffect(() => {
+        const source = zonesSourceRef.current;
+
+        source.clear();
+        source.addFeatures(Array.from(zones.values()).map(makeZoneFeature));
+    }, [zones]);
+
+    // Close the popup if the feature it describes is gone
+    useEffect(() => {
+        const id = popupFeatureIdRef.current;
+        if (!id || markers.has(id) || zones.has(id)) return;
+
+        // Drop the content too, or the portal keeps rendering the stale
+        // record (and renderPopup gets an id that no longer exists)
+        popupOverlayRef.current?.setPosition(undefined);
+        popupFeatureIdRef.current = null;
+        setPopupFeature(null);
+    }, [markers, zones]);
+
+    // Undo / redo shortcuts while the map has focus.
+    // Ctrl+Z undoes; Ctrl+Shift+Z (or Ctrl+Y) redoes. Cmd works too on macOS.
+    useEffect(() => {
+        const mapDiv = mapDivRef.current;
+        if (!mapDiv) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+
+            // Typing in the marker popup: let the field do its own undo
+            if (e.target instanceof HTMLElement && e.target.closest("input, textarea, select")) return;
+
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault();
+                redo();
+            }
+        };
+
+        mapDiv.addEventListener("keydown", handleKeyDown);
+        return () => mapDiv.removeEventListener("keydown", handleKeyDown);
+    }, [undo, redo]);
+
+    // Mode shortcuts while the map has focus: S select, M add marker,
+    // Z draw zone, R measure, P pan, Esc back to select.
+    useEffect(() => {
+        const mapDiv = mapDivRef.current;
+        if (!mapDiv || !onInteractionModeChange) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+            // Typing in the marker popup / zone form
+            if (e.target instanceof HTMLElement && e.target.closest("input, textarea, select")) return;
+
+            const mode = interactionModeForKey(e.key);
+            if (!mode) return;
+
+            e.preventDefault();
+            onInteractionModeChange(mode);
+        };
+
+        mapDiv.addEventListener("keydown", handleKeyDown);
+        return () => mapDiv.removeEventListener("keydown", handleKeyDown);
+    }, [onInteractionModeChange]);
+
+    // The click handler reads the mode from a ref; OLInfo carries it too,
+    // so re-report when it changes.
+    useEffect(() => {
+        interactionModeRef.current = interactionMode;
+
+        if (!lastInfoRef.current) return;
+        lastInfoRef.current = { ...lastInfoRef.current, interactionMode };
+        onInfo?.(lastInfoRef.current);
+    }, [interactionMode, onInfo]);
+
+    // Keep heatmap points in sync with the store (seeds, imports, ...)
+    useEffect(() => {
+        const source = heatSourceRef.current;
+
+        source.clear();
+        source.addFeatures(
+            Array.from(heatPoints.values()).map((pt) =>
+                makeHeatPoint(pt.id, pt.lon, pt.lat, pt.weight, pt.name)
+            )
+        );
+    }, [heatPoints]);
+
+    useEffect(() => {
+        newMarkerCategoryRef.current = newMarkerCategory;
+    }, [newMarkerCategory]);
+
+    // Draw mode: polygon sketching with OL's Draw interaction.
+    // Double-click finishes the polygon, then the details form takes over.
+    useEffect(() => {
+        const map = mapRef.current;
+        if (!map || !drawZoneMode || pendingZone) return;
+
+        const draftSource = draftLayerRef.current.getSource();
+        if (!draftSource) return;
+
+        const draw = new Draw({ source: draftSource, type: "Polygon" });
+
+        draw.on("drawend", (evt) => {
+            const polygon = evt.feature.getGeometry() as Polygon;
+
+            // Outer ring only; OL closes it for us (first == last)
+            const coordinates = polygon
+                .getCoordinates()[0]
+                .map((coord) => toLonLat(coord) as LonLat);
+
+            const [lon, lat] = toLonLat(polygon.getInteriorPoint().getCoordinates());
+
+            popupOverlayRef.current?.setPosition(undefined);
+            setPendingZone({ coordinates, interiorLatLon: [lat, lon] });
+        });
+
+        map.addInteraction(draw);
+
+        return () => {
+            map.removeInteraction(draw);
+        };
+    }, [drawZoneMode, pendingZone]);
+
+    // Measure mode: sketch a line (distance) or polygon (area); double-click
+    // finishes. Results stay on the map until the mode changes or turns off.
+    useEffect(() => {
+        const map = mapRef.current;
+        const measureLayer = measureLayerRef.current;
+        const measureSource = measureLayer.getSource();
+        if (!map || !measureSource) return;
+
+        measureSource.clear();
+        if (!measuring) return;
+
+        const style = createMeasureStyle(measureMode);
+        measureLayer.setStyle(style);
+
+        const draw = new Draw({
+            source: measureSource,
+            type: measureMode === "distance" ? "LineString" : "Polygon",
+            style,
+        });
+
+        // Popup would sit on top of the sketch
+        draw.on("drawstart", () => popupOverlayRef.current?.setPosition(undefined));
+
+        map.addInteraction(draw);
+
+        return () => {
+            map.removeInteraction(draw);
+        };
+    }, [measuring, measureMode]);
+
+    // Edit mode: drag markers (Translate) and reshape zone vertices (Modify).
+    // Paused while drawing/measuring (so the tools don't fight over clicks)
+    // and in pan mode.
+    const editPaused = !modeInspectsFeatures(interactionMode);
+    useEffect(() => {
+        const map = mapRef.current;
+        if (!map || !editMode || editPaused) return;
+
+        const translate = new Translate({ layers: [markersLayerRef.current] });
+        const modify = new Modify({ source: zonesSourceRef.current });
+
+        // Popup would be pointing at the old spot
+        const hidePopup = () => popupOverlayRef.current?.setPosition(undefined);
+
+        translate.on("translatestart", hidePopup);
+        modify.on("modifystart", hidePopup);
+
+        translate.on("translateend", (evt) => {
+            evt.features.forEach((feature) => {
+                const props = feature.getProperties() as FeatureProperties;
+                if (!isMarkerFeature(props)) return;
+
+                const point = feature.getGeometry() as Point;
+                const [lon, lat] = toLonLat(point.getCoordinates());
+
+                // Store recomputes MGRS; the sync effect rebuilds the feature
+                moveMarker(props.id, lat, lon);
+
+                emitMapEvent({
+                    type: "markerMoved",
+                    markerId: props.id,
+                    coordinates: [lat, lon],
+                });
+            });
+        });
+
+        modify.on("modifyend", (evt) => {
+            evt.features.forEach((feature) => {
+                const props = feature.getProperties() as FeatureProperties;
+                if (!isZoneFeature(props)) return;
+
+                const polygon = feature.getGeometry() as Polygon;
+                const coordinates = polygon
+                    .getCoordinates()[0]
+                    .map((coord) => toLonLat(coord) as LonLat);
+
+                const [lon, lat] = toLonLat(polygon.getInteriorPoint().getCoordinates());
+
+                // Store update rebuilds the zone layer via the sync effect
+                updateZone(props.id, { coordinates });
+
+                emitMapEvent({
+                    type: "zoneModified",
+                    zoneId: props.id,
+                    coordinates: [lat, lon],
+                });
+            });
+        });
+
+        map.addInteraction(translate);
+        map.addInteraction(modify);
+
+        return () => {
+            map.removeInteraction(translate);
+            map.removeInteraction(modify);
+        };
+    }, [editMode, editPaused, moveMarker, updateZone, emitMapEvent]);
+
+    // Leaving draw mode throws away an unsaved sketch
+    useEffect(() => {
+        if (drawZoneMode) return;
+
+        draftLayerRef.current.getSource()?.clear();
+        setPendingZone(null);
+    }, [drawZoneMode]);
+
+    const handleZoneSave = (values: ZoneFormValues) => {
+        if (!pendingZone) return;
+
+        const zoneId = addZone({ ...values, coordinates: pendingZone.coordinates });
+
+        draftLayerRef.current.getSource()?.clear();
+        setPendingZone(null);
+
+        emitMapEvent({
+            type: "zoneCreated",
+            zoneId,
+            coordinates: pendingZone.interiorLatLon,
+        });
+    };
+
+    /* ---------------- Marker popup actions ---------------- */
+
+    const popupMarker =
+        popupFeature && isMarkerFeature(popupFeature) ? markers.get(popupFeature.id) : undefined;
+
+    const handleMarkerSave = (changes: Partial<MarkerDetails>) => {
+        if (!popupMarker) return;
+
+        // Saving an untouched form isn't an update
+        const changedFields = updateMarker(popupMarker.id, changes);
+        if (changedFields.length === 0) return;
+
+        emitMapEvent({
+            type: "markerUpdated",
+            markerId: popupMarker.id,
+            coordinates: [popupMarker.lat, popupMarker.lon],
+            changedFields,
+        });
+    };
+
+    const handleMarkerDelete = () => {
+        if (!popupMarker) return;
+
+        // Store only; the sync effects drop the pin and close the popup
+        removeMarker(popupMarker.id);
+
+        emitMapEvent(
+            {
+                type: "markerRemoved",
+                markerId: popupMarker.id,
+                coordinates: [popupMarker.lat, popupMarker.lon],
+            },
+            popupMarker
+        );
+    };
+
+    const handleMarkerCenter = () => {
+        if (!popupMarker) return;
+
+        mapRef.current?.getView().animate({
+            center: fromLonLat([popupMarker.lon, popupMarker.lat]),
+            duration: ANIMATION_DURATION,
+        });
+    };
+
+    /**
+     * What goes inside the popup overlay.
+     * A custom renderPopup wins; returning undefined from it falls back
+     * to the built-in marker/zone content.
+     */
+    const renderPopupContent = (): React.ReactNode => {
+        if (!popupFeature) return null;
+
+        const custom = renderPopup?.(popupFeature);
+        if (custom !== undefined) return custom;
+
+        if (popupMarker) {
+            return (
+                <MarkerPopup
+                    key={popupMarker.id}
+                    marker={popupMarker}
+                    onSave={handleMarkerSave}
+                    onDelete={handleMarkerDelete}
+                    onCenter={handleMarkerCenter}
+                />
+            );
+        }
+
+        if (isZoneFeature(popupFeature)) return <ZonePopup zone={popupFeature} />;
+
+        return null;
+    };
+
+    const handleZoneCancel = () => {
+        draftLayerRef.current.getSource()?.clear();
+        setPendingZone(null);
+    };
+
     // Toggle layers based on UI props
     useEffect(() => {
         zonesLayerRef.current.setVisible(showZones);
@@ -568,15 +1322,76 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
         heatLayerRef.current.setVisible(showHeatIncidents);
     }, [showHeatIncidents]);
 
+    // MGRS grid: only built while shown, since it depends on the view.
+    // The init effect redraws it on every move.
+    useEffect(() => {
+        showMgrsGridRef.current = showMgrsGrid;
+
+        const map = mapRef.current;
+        const layer = mgrsGridLayerRef.current;
+        const source = layer.getSource();
+
+        layer.setVisible(showMgrsGrid);
+        if (!source) return;
+
+        if (showMgrsGrid && map) drawMgrsGrid(map, source);
+        else source.clear();
+    }, [showMgrsGrid]);
+
+    // Marker clustering on/off.
+    // Translate has to grab real marker features, so edit mode always
+    // shows markers unclustered.
+    useEffect(() => {
+        const layer = markersLayerRef.current;
+
+        if (clusterMarkers && !editMode) {
+            layer.setSource(new Cluster({ source: markersSourceRef.current, distance: clusterDistance }));
+        } else {
+            layer.setSource(markersSourceRef.current);
+        }
+    }, [clusterMarkers, clusterDistance, editMode]);
+
+    // Swap the base tiles when the selected base layer (or the list) changes.
+    // Unknown ids fall back to the first entry rather than a blank map.
+    useEffect(() => {
+        const config = baseLayers.find((layer) => layer.id === baseLayerId) ?? baseLayers[0];
+        if (!config) return;
+
+        baseLayerRef.current.setSource(createBaseLayerSource(config));
+    }, [baseLayers, baseLayerId]);
+
+    // Geofence alerts are published by the store, not by map interactions;
+    // pass them on so onMapEvent sees every MapEvent type
+    useEffect(() => {
+        if (!onMapEvent) return;
+        return subscribe("geofenceAlert", (event) => onMapEvent(event));
+    }, [subscribe, onMapEvent]);
+
     // External clear marker request (triggered by parent)
     useEffect(() => {
         if (requestClearMarkers == null) return;
 
-        clearMarkers(); // store
-        markersSourceRef.current.clear(); // map
+        clearMarkers(); // store (sync effect empties the layer)
         popupOverlayRef.current?.setPosition(undefined);
     }, [requestClearMarkers, clearMarkers]);
 
+    // External "fit bounds" request (frame an area, e.g. from the chatbot)
+    useEffect(() => {
+        if (!fitBoundsRequest || !mapRef.current) return;
+
+        const { bounds, padding = 40 } = fitBoundsRequest;
+        const extent = transformExtent(
+            [bounds.west, bounds.south, bounds.east, bounds.north],
+            "EPSG:4326",
+            "EPSG:3857"
+        );
+
+        mapRef.current.getView().fit(extent, {
+            duration: ANIMATION_DURATION,
+            padding: [padding, padding, padding, padding],
+        });
+    }, [fitBoundsRequest]);
+
     // External "go to" request (fly to location, optionally drop a marker)
     useEffect(() => {
         if (!goToRequest || !mapRef.current) return;
@@ -590,37 +1405,26 @@ export default function OpenLayersTest(props: OpenLayersTestProps) {
         if (!dropMarker) return;
         if (!markersLayerRef.current.getVisible()) return;
 
-        const lonLat: LonLat = [lon, lat];
-
-        // Use provided mgrs if present, otherwise compute it
-        const markerMgrs = mgrsText ?? (mgrs.forward(lonLat, 5) as string);
+        // Use provided mgrs if present, otherwise the store computes it
+        // (sync effect puts it on the map)
+        const markerId = addMarker(lat, lon, mgrsText, { category: newMarkerCategoryRef.current });
 
-        // Add to centralized store
-        const markerId = addMarker(lat, lon, markerMgrs);
-
-        // Add to OL layer
-        const marker = new Feature({ geometry: new Point(coord) });
-
-        const markerProps: MarkerFeature = {
-            id: markerId,
-            type: "marker",
-            name: "Marker",
-            lonLat,
-            mgrs: markerMgrs,
-        };
-
-        marker.setId(markerId);
-        marker.setProperties(markerProps);
-        marker.setStyle(markerStyle());
-        markersSourceRef.current.addFeature(marker);
-
-        onMapEvent?.({
+        emitMapEvent({
             type: "markerAdded",
             coordinates: [lat, lon],
             markerId,
         });
     }, [goToRequest]);
 
-    // OpenLayers renders into this div
-    return <div ref={mapDivRef} style={{ width: "100%", height: "100%" }} />;
+    return (
+        <div style={{ position: "relative", width: "100%", height: "100%" }}>
+            {/* OpenLayers renders into this div */}
+            {/* tabIndex lets it take focus (click) so keyboard shortcuts work */}
+            <div ref={mapDivRef} tabIndex={0} style={{ width: "100%", height: "100%", outline: "none" }} />
+
+            {pendingZone && <ZoneForm onSave={handleZoneSave} onCancel={handleZoneCancel} />}
+
+            {createPortal(renderPopupContent(), popupEl)}
+        </div>
+    );
 }
@@ -0,0 +1,166 @@
+import React, { useState } from "react";
+import { useMapData } from "./MapDataContext";
+import { parseCsv, guessColumnMapping, csvToHeatPoints, CSV_FIELDS } from "./csv";
+import type { CsvColumnMapping, CsvField, CsvHeatImport, CsvRow } from "./csv";
+
+/* ============================================================
+   CSV incident import panel (lives inside MapControlDrawer)
+   ============================================================
+   Flow: pick file -> check/adjust column mapping -> import -> report.
+*/
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  lat: "Latitude",
+  lon: "Longitude",
+  mgrs: "MGRS",
+  weight: "Weight (0-1)",
+  name: "Name",
+  timestamp: "Timestamp",
+};
+
+const SELECT_STYLE: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  background: "rgba(255,255,255,0.08)",
+  color: "#fff",
+  border: "1px solid rgba(255,255,255,0.25)",
+  borderRadius: 6,
+  fontSize: 12,
+};
+
+const BUTTON_STYLE: React.CSSProperties = {
+  marginTop: 8,
+  width: "100%",
+  background: "#e9e9e9",
+  color: "#111",
+  border: "1px solid rgba(0,0,0,0.20)",
+  borderRadius: 8,
+  padding: "8px 10px",
+  fontWeight: 700,
+  cursor: "pointer",
+};
+
+export default function CsvImportPanel() {
+  const { addHeatPoints } = useMapData();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [report, setReport] = useState<CsvHeatImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = rows[0]?.cells ?? [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow picking the same file again
+    if (!file) return;
+
+    setReport(null);
+    setFileName(file.name);
+
+    let parsed: CsvRow[];
+    try {
+      parsed = parseCsv(await file.text());
+    } catch (err) {
+      setRows([]);
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : "unknown error"}`);
+      return;
+    }
+
+    if (parsed.length < 2) {
+      setRows([]);
+      setError(`${file.name} has no data rows`);
+      return;
+    }
+
+    setRows(parsed);
+    setMapping(guessColumnMapping(parsed[0].cells));
+    setError(null);
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === "" ? undefined : Number(value) }));
+  };
+
+  const handleImport = () => {
+    try {
+      const result = csvToHeatPoints(rows, mapping);
+
+      // Store update is all it takes; OpenLayersTest redraws the heat layer
+      addHeatPoints(result.points);
+
+      // Done with this file; picking it again is how you'd re-import it
+      setRows([]);
+      setReport(result);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+  };
+
+  return (
+    <div>
+      <label style={{ ...BUTTON_STYLE, display: "block", textAlign: "center" }}>
+        {fileName ? `CSV: ${fileName}` : "Choose incident CSV"}
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFile}
+          style={{ display: "none" }}
+          aria-label="Choose incident CSV file"
+        />
+      </label>
+
+      {/* Column mapping */}
+      {headers.length > 0 && (
+        <div style={{ marginTop: 8 }}>
+          {CSV_FIELDS.map((field) => (
+            <div key={field} style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 4 }}>
+              <span style={{ width: 90, fontSize: 12 }}>{FIELD_LABELS[field]}</span>
+              <select
+                value={mapping[field] ?? ""}
+                onChange={(e) => handleMappingChange(field, e.target.value)}
+                style={SELECT_STYLE}
+                aria-label={`Column for ${FIELD_LABELS[field]}`}
+              >
+                <option value="">(none)</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          <button type="button" onClick={handleImport} style={BUTTON_STYLE}>
+            Import {rows.length - 1} rows
+          </button>
+        </div>
+      )}
+
+      {error && <div style={{ marginTop: 8, fontSize: 11, color: "#ff6b6b" }}>{error}</div>}
+
+      {/* Validation report */}
+      {report && (
+        <div style={{ marginTop: 8, fontSize: 11, opacity: 0.9 }}>
+          <div>
+            Imported <b>{report.points.length}</b> of {report.totalRows} rows
+            {report.rejected.length > 0 && `, rejected ${report.rejected.length}`}
+          </div>
+
+          {report.rejected.length > 0 && (
+            <div style={{ maxHeight: 100, overflow: "auto", marginTop: 4 }}>
+              {report.rejected.map((r) => (
+                <div key={r.row} style={{ marginBottom: 2 }}>
+                  Row {r.row}: {r.reason}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,27 @@
 import React, { useState } from "react";
-import type { OLInfo, MapEvent } from "./types";
+import type { OLInfo, BaseLayerConfig, InteractionMode, MeasureMode } from "./types";
 import { useMapData } from "./MapDataContext";
+import { toGeoJSON, fromGeoJSON } from "./geojson";
+import type { MapDataImport } from "./geojson";
+import { toKML, fromKML } from "./kml";
+import { toGPX, fromGPX } from "./gpx";
+import CsvImportPanel from "./CsvImportPanel";
+import EventLogPanel from "./EventLogPanel";
+import GeofencePanel from "./GeofencePanel";
+import { getMarkerCategories } from "./markerIcons";
+import { downloadTextFile, timestampedFilename } from "./fileUtils";
+import { MEASURE_MODE_LABELS } from "./measure";
+import { INTERACTION_MODES, getInteractionModeInfo } from "./interactionModes";
+import { formatCoordinate, formatDecimal, formatMgrs, MGRS_PRECISION_LABELS } from "./coordinateFormat";
+import type { MgrsPrecision } from "./coordinateFormat";
+import { COORDINATE_FORMAT_LABELS } from "./coordinateParser";
+import type { CoordinateFormat } from "./coordinateParser";
 
 type Toggles = {
   zones: boolean;
   markers: boolean;
   heatIncidents: boolean;
+  mgrsGrid: boolean;
 };
 
 type MapControlDrawerProps = {
@@ -13,11 +29,26 @@ type MapControlDrawerProps = {
   onToggle: () => void;
   mapInfo: OLInfo;
   lastClick: [number, number] | null;
+  // Live position under the mouse (null = pointer off the map); row hidden when not passed
+  cursorLatLon?: [number, number] | null;
   markersCount: number;
   onClearMarkers: () => void;
   toggles: Toggles;
   onToggleChange: (key: keyof Toggles, value: boolean) => void;
-  eventLog: string[];
+  onLocateEvent?: (lat: number, lon: number) => void;
+  interactionMode?: InteractionMode;
+  onInteractionModeChange?: (mode: InteractionMode) => void;
+  editMode?: boolean;
+  onEditModeChange?: (active: boolean) => void;
+  measureMode?: MeasureMode;
+  onMeasureModeChange?: (mode: MeasureMode) => void;
+  baseLayers?: BaseLayerConfig[];
+  baseLayerId?: string;
+  onBaseLayerChange?: (id: string) => void;
+  clusterMarkers?: boolean;
+  onClusterMarkersChange?: (enabled: boolean) => void;
+  markerCategory?: string;
+  onMarkerCategoryChange?: (category: string) => void;
   style?: React.CSSProperties;
   className?: string;
 };
@@ -30,6 +61,18 @@ const DIVIDER_STYLE: React.CSSProperties = {
   borderTop: "1px solid rgba(255,255,255,0.12)",
 };
 
+const ACTION_BTN_STYLE: React.CSSProperties = {
+  marginTop: 10,
+  width: "100%",
+  background: "#e9e9e9",
+  color: "#111",
+  border: "1px solid rgba(0,0,0,0.20)",
+  borderRadius: 8,
+  padding: "8px 10px",
+  fontWeight: 700,
+  cursor: "pointer",
+};
+
 const ROW_STYLE: React.CSSProperties = {
   display: "flex",
   alignItems: "center",
@@ -37,8 +80,31 @@ const ROW_STYLE: React.CSSProperties = {
   marginTop: 8,
 };
 
-function formatNumber(n: number): string {
-  return n.toFixed(5);
+/**
+ * Pick a parser from the file extension.
+ * Throws with a readable message for unknown types and bad content.
+ */
+function parseImportFile(fileName: string, text: string): MapDataImport {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+
+  switch (extension) {
+    case "kml":
+      return fromKML(text);
+    case "gpx":
+      return fromGPX(text);
+    case "geojson":
+    case "json": {
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        throw new Error(`${fileName} is not valid JSON`);
+      }
+      return fromGeoJSON(json);
+    }
+    default:
+      throw new Error(`Unsupported file type ".${extension ?? ""}" (use .geojson, .kml or .gpx)`);
+  }
 }
 
 function getDrawerStyle(isOpen: boolean): React.CSSProperties {
@@ -70,17 +136,101 @@ export default function MapControlDrawer(props: MapControlDrawerProps) {
     onToggle,
     mapInfo,
     lastClick,
+    cursorLatLon,
     markersCount,
     onClearMarkers,
     toggles,
     onToggleChange,
-    eventLog,
+    onLocateEvent,
+    interactionMode = "select",
+    onInteractionModeChange,
+    editMode = false,
+    onEditModeChange,
+    measureMode = "distance",
+    onMeasureModeChange,
+    baseLayers = [],
+    baseLayerId,
+    onBaseLayerChange,
+    clusterMarkers = false,
+    onClusterMarkersChange,
+    markerCategory,
+    onMarkerCategoryChange,
     style,
     className,
   } = props;
 
   // Access centralized data store
-  const { markers } = useMapData();
+  const {
+    markers,
+    getAllMarkers,
+    getAllZones,
+    getAllHeatPoints,
+    loadFeatures,
+    addHeatPoints,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    coordinateDisplay,
+    setCoordinateDisplay,
+  } = useMapData();
+
+  const formatLatLon = (lat: number, lon: number) => formatCoordinate(lat, lon, coordinateDisplay);
+
+  // Result of the last import (or its error), shown under the buttons
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+
+  const handleExportGeoJSON = () => {
+    const collection = toGeoJSON({
+      markers: getAllMarkers(),
+      zones: getAllZones(),
+      heatPoints: getAllHeatPoints(),
+    });
+
+    downloadTextFile(
+      timestampedFilename("map-data", "geojson"),
+      JSON.stringify(collection, null, 2),
+      "application/geo+json"
+    );
+  };
+
+  const handleExportKML = () => {
+    const kml = toKML({ markers: getAllMarkers(), zones: getAllZones() });
+    downloadTextFile(timestampedFilename("map-data", "kml"), kml, "application/vnd.google-earth.kml+xml");
+  };
+
+  const handleExportGPX = () => {
+    const gpx = toGPX(getAllMarkers());
+    downloadTextFile(timestampedFilename("map-markers", "gpx"), gpx, "application/gpx+xml");
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const imported = parseImportFile(file.name, await file.text());
+
+      // Store updates are enough; OpenLayersTest syncs its layers from these
+      // Markers + zones as one undo step
+      loadFeatures({ markers: imported.markers, zones: imported.zones });
+      addHeatPoints(imported.heatPoints);
+
+      const summary =
+        `Imported ${imported.markers.length} markers, ` +
+        `${imported.zones.length} zones, ${imported.heatPoints.length} heat points`;
+
+      setImportStatus(
+        imported.skipped.length
+          ? `${summary}. Skipped ${imported.skipped.length}: ${imported.skipped.join("; ")}`
+          : summary
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setImportStatus(`Import failed: ${message}`);
+    }
+  };
 
   return (
     <div style={{ ...getDrawerStyle(isOpen), ...style }} className={className}>
@@ -94,26 +244,52 @@ export default function MapControlDrawer(props: MapControlDrawerProps) {
         </div>
         <div>
           Center:{" "}
-          <code style={{ color: "#fff" }}>
-            {formatNumber(mapInfo.centerLatLon[0])}, {formatNumber(mapInfo.centerLatLon[1])}
-          </code>
+          <code style={{ color: "#fff" }}>{formatLatLon(mapInfo.centerLatLon[0], mapInfo.centerLatLon[1])}</code>
         </div>
       </div>
 
+      {/* Coordinate display format (applies to the drawer and popups) */}
+      <label style={ROW_STYLE}>
+        Coordinates:
+        <select
+          value={coordinateDisplay.format}
+          onChange={(e) =>
+            setCoordinateDisplay({ ...coordinateDisplay, format: e.target.value as CoordinateFormat })
+          }
+          style={{ flex: 1, minWidth: 0, borderRadius: 6, fontSize: 12 }}
+          aria-label="Coordinate display format"
+        >
+          {(Object.keys(COORDINATE_FORMAT_LABELS) as CoordinateFormat[]).map((format) => (
+            <option key={format} value={format}>
+              {COORDINATE_FORMAT_LABELS[format]}
+            </option>
+          ))}
+        </select>
+        {coordinateDisplay.format === "mgrs" && (
+          <select
+            value={coordinateDisplay.mgrsPrecision}
+            onChange={(e) =>
+              setCoordinateDisplay({ ...coordinateDisplay, mgrsPrecision: Number(e.target.value) as MgrsPrecision })
+            }
+            style={{ borderRadius: 6, fontSize: 12 }}
+            aria-label="MGRS precision"
+          >
+            {([1, 2, 3, 4, 5] as const).map((digits) => (
+              <option key={digits} value={digits}>
+                {MGRS_PRECISION_LABELS[digits]}
+              </option>
+            ))}
+          </select>
+        )}
+      </label>
+
       {/* Clear Markers Button */}
       <button
         type="button"
         disabled={markersCount === 0}
         onClick={onClearMarkers}
         style={{
-          marginTop: 10,
-          width: "100%",
-          background: "#e9e9e9",
-          color: "#111",
-          border: "1px solid rgba(0,0,0,0.20)",
-          borderRadius: 8,
-          padding: "8px 10px",
-          fontWeight: 700,
+          ...ACTION_BTN_STYLE,
           cursor: markersCount ? "pointer" : "not-allowed",
           opacity: markersCount ? 1 : 0.7,
         }}
@@ -122,6 +298,134 @@ export default function MapControlDrawer(props: MapControlDrawerProps) {
         Clear markers ({markersCount})
       </button>
 
+      {/* Category for markers dropped by clicking the map */}
+      {onMarkerCategoryChange && (
+        <label style={ROW_STYLE}>
+          New markers:
+          <select
+            value={markerCategory}
+            onChange={(e) => onMarkerCategoryChange(e.target.value)}
+            style={{ flex: 1, minWidth: 0, borderRadius: 6, fontSize: 12 }}
+            aria-label="Category for new markers"
+          >
+            {getMarkerCategories().map(({ category, label }) => (
+              <option key={category} value={category}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {/* Undo / Redo (markers + zones) */}
+      <div style={{ display: "flex", gap: 8 }}>
+        <button
+          type="button"
+          onClick={undo}
+          disabled={!canUndo}
+          style={{
+            ...ACTION_BTN_STYLE,
+            cursor: canUndo ? "pointer" : "not-allowed",
+            opacity: canUndo ? 1 : 0.7,
+          }}
+          title="Undo (Ctrl+Z)"
+          aria-label="Undo last map change"
+        >
+          ↶ Undo
+        </button>
+        <button
+          type="button"
+          onClick={redo}
+          disabled={!canRedo}
+          style={{
+            ...ACTION_BTN_STYLE,
+            cursor: canRedo ? "pointer" : "not-allowed",
+            opacity: canRedo ? 1 : 0.7,
+          }}
+          title="Redo (Ctrl+Shift+Z)"
+          aria-label="Redo map change"
+        >
+          ↷ Redo
+        </button>
+      </div>
+
+      {/* Interaction Mode (only shown when the parent wires it up) */}
+      {onInteractionModeChange && (
+        <div style={{ marginTop: 10 }}>
+          <div role="radiogroup" aria-label="Interaction mode" style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+            {INTERACTION_MODES.map(({ mode, label, shortcut }) => {
+              const active = interactionMode === mode;
+              return (
+                <button
+                  key={mode}
+                  type="button"
+                  role="radio"
+                  onClick={() => onInteractionModeChange(mode)}
+                  style={{
+                    ...ACTION_BTN_STYLE,
+                    marginTop: 0,
+                    width: "auto",
+                    flex: "1 1 auto",
+                    padding: "6px 8px",
+                    background: active ? "#0a84ff" : ACTION_BTN_STYLE.background,
+                    color: active ? "#fff" : ACTION_BTN_STYLE.color,
+                  }}
+                  aria-checked={active}
+                  title={`${label} (${shortcut})`}
+                >
+                  {label} <span style={{ opacity: 0.6 }}>({shortcut})</span>
+                </button>
+              );
+            })}
+          </div>
+          <div style={{ marginTop: 6, fontSize: 12, opacity: 0.8 }} aria-live="polite">
+            {getInteractionModeInfo(interactionMode).hint}
+          </div>
+        </div>
+      )}
+
+      {/* Edit Toggle: drag markers / reshape zones */}
+      {onEditModeChange && (
+        <button
+          type="button"
+          onClick={() => onEditModeChange(!editMode)}
+          style={{
+            ...ACTION_BTN_STYLE,
+            background: editMode ? "#0a84ff" : ACTION_BTN_STYLE.background,
+            color: editMode ? "#fff" : ACTION_BTN_STYLE.color,
+          }}
+          aria-pressed={editMode}
+          aria-label="Toggle shape editing"
+        >
+          {editMode ? "Editing… (drag markers / zone vertices)" : "Edit shapes"}
+        </button>
+      )}
+
+      {/* Measure: what to measure while in measure mode */}
+      {onMeasureModeChange && interactionMode === "measure" && (
+        <div style={{ display: "flex", gap: 8 }}>
+          {(Object.keys(MEASURE_MODE_LABELS) as MeasureMode[]).map((mode) => {
+            const active = measureMode === mode;
+            return (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => onMeasureModeChange(mode)}
+                style={{
+                  ...ACTION_BTN_STYLE,
+                  background: active ? "#0a84ff" : ACTION_BTN_STYLE.background,
+                  color: active ? "#fff" : ACTION_BTN_STYLE.color,
+                }}
+                aria-pressed={active}
+                aria-label={`Measure ${mode}`}
+              >
+                {MEASURE_MODE_LABELS[mode]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Overlays Section */}
       <div style={DIVIDER_STYLE}>
         <div style={{ fontWeight: 800, marginBottom: 8 }}>Overlays</div>
@@ -155,8 +459,50 @@ export default function MapControlDrawer(props: MapControlDrawerProps) {
           />
           Heatmap: Incidents
         </label>
+
+        <label style={ROW_STYLE}>
+          <input
+            type="checkbox"
+            checked={toggles.mgrsGrid}
+            onChange={(e) => onToggleChange("mgrsGrid", e.target.checked)}
+            aria-label="Toggle MGRS grid"
+          />
+          MGRS grid
+        </label>
+
+        {onClusterMarkersChange && (
+          <label style={ROW_STYLE}>
+            <input
+              type="checkbox"
+              checked={clusterMarkers}
+              onChange={(e) => onClusterMarkersChange(e.target.checked)}
+              aria-label="Toggle marker clustering"
+            />
+            Cluster markers
+          </label>
+        )}
       </div>
 
+      {/* Base Layer Switcher (only worth showing with more than one source) */}
+      {onBaseLayerChange && baseLayers.length > 1 && (
+        <div style={DIVIDER_STYLE}>
+          <div style={{ fontWeight: 800, marginBottom: 8 }}>Base layer</div>
+
+          {baseLayers.map((layer, index) => (
+            <label key={layer.id} style={ROW_STYLE}>
+              <input
+                type="radio"
+                name="base-layer"
+                checked={baseLayerId ? layer.id === baseLayerId : index === 0}
+                onChange={() => onBaseLayerChange(layer.id)}
+                aria-label={`Use ${layer.label} base layer`}
+              />
+              {layer.label}
+            </label>
+          ))}
+        </div>
+      )}
+
       {/* Markers Count */}
       <div style={{ marginTop: 12, opacity: 0.9 }}>
         Markers: <b>{markersCount}</b>
@@ -166,21 +512,92 @@ export default function MapControlDrawer(props: MapControlDrawerProps) {
       <div style={{ marginTop: 10, opacity: 0.9 }}>
         Last click:{" "}
         <code style={{ color: "#fff" }}>
-          {lastClick ? `${formatNumber(lastClick[0])}, ${formatNumber(lastClick[1])}` : "—"}
+          {lastClick ? formatLatLon(lastClick[0], lastClick[1]) : "—"}
         </code>
       </div>
 
+      {/* Cursor readout: always lat/lon + MGRS, whatever the display format */}
+      {cursorLatLon !== undefined && (
+        <div style={{ marginTop: 6, opacity: 0.9, lineHeight: 1.5 }}>
+          <div>
+            Cursor:{" "}
+            <code style={{ color: "#fff" }}>
+              {cursorLatLon ? formatDecimal(cursorLatLon[0], cursorLatLon[1]) : "—"}
+            </code>
+          </div>
+          <div>
+            MGRS:{" "}
+            <code style={{ color: "#fff" }}>
+              {(cursorLatLon && formatMgrs(cursorLatLon[0], cursorLatLon[1], coordinateDisplay.mgrsPrecision)) ?? "—"}
+            </code>
+          </div>
+        </div>
+      )}
+
+      {/* Data Import / Export */}
+      <div style={DIVIDER_STYLE}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Data</div>
+
+        <button
+          type="button"
+          onClick={handleExportGeoJSON}
+          style={ACTION_BTN_STYLE}
+          aria-label="Export map data as GeoJSON"
+        >
+          Export GeoJSON
+        </button>
+
+        <div style={{ display: "flex", gap: 8 }}>
+          <button
+            type="button"
+            onClick={handleExportKML}
+            style={ACTION_BTN_STYLE}
+            aria-label="Export markers and zones as KML"
+          >
+            Export KML
+          </button>
+          <button
+            type="button"
+            onClick={handleExportGPX}
+            style={ACTION_BTN_STYLE}
+            aria-label="Export markers as GPX waypoints"
+          >
+            Export GPX
+          </button>
+        </div>
+
+        <label style={{ ...ACTION_BTN_STYLE, display: "block", textAlign: "center" }}>
+          Import file (GeoJSON / KML / GPX)
+          <input
+            type="file"
+            accept=".geojson,.json,.kml,.gpx,application/geo+json,application/json"
+            onChange={handleImportFile}
+            style={{ display: "none" }}
+            aria-label="Import GeoJSON, KML or GPX file"
+          />
+        </label>
+
+        {importStatus && (
+          <div style={{ marginTop: 8, fontSize: 11, opacity: 0.85 }}>{importStatus}</div>
+        )}
+      </div>
+
+      {/* CSV Incidents -> Heatmap */}
+      <div style={DIVIDER_STYLE}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Incidents (CSV)</div>
+        <CsvImportPanel />
+      </div>
+
+      {/* Geofence Alerts */}
+      <div style={DIVIDER_STYLE}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Geofence Alerts</div>
+        <GeofencePanel onLocate={onLocateEvent} />
+      </div>
+
       {/* Event Log */}
       <div style={DIVIDER_STYLE}>
         <div style={{ fontWeight: 800, marginBottom: 8 }}>Event Log</div>
-        <div style={{ fontSize: 11, opacity: 0.8, maxHeight: 150, overflow: "auto" }}>
-          {eventLog.length === 0 && <div>No events yet...</div>}
-          {eventLog.map((log, i) => (
-            <div key={i} style={{ marginBottom: 4 }}>
-              {log}
-            </div>
-          ))}
-        </div>
+        <EventLogPanel onLocate={onLocateEvent} />
       </div>
 
       {/* Marker List */}
@@ -190,7 +607,7 @@ export default function MapControlDrawer(props: MapControlDrawerProps) {
           {markers.size === 0 && <div>No markers yet...</div>}
           {Array.from(markers.values()).map((marker) => (
             <div key={marker.id} style={{ marginBottom: 4 }}>
-              {marker.mgrs} @ {marker.lat.toFixed(3)}, {marker.lon.toFixed(3)}
+              {marker.label} @ {formatLatLon(marker.lat, marker.lon)}
             </div>
           ))}
         </div>
@@ -0,0 +1,83 @@
+import TileSource from "ol/source/Tile.js";
+import XYZ from "ol/source/XYZ.js";
+import WMTS from "ol/source/WMTS.js";
+import WMTSTileGrid from "ol/tilegrid/WMTS.js";
+import { get as getProjection } from "ol/proj.js";
+import { getTopLeft, getWidth } from "ol/extent.js";
+
+import type { BaseLayerConfig } from "./types";
+
+/* ============================================================
+   Base layer (tile source) configuration
+   ============================================================ */
+
+const OSM_ATTRIBUTION =
+    '&#169; <a href="https://www.openstreetmap.org/copyright" target="_blank">OpenStreetMap</a> contributors';
+
+// Used when a config doesn't say how deep its tiles go
+const DEFAULT_MAX_ZOOM = 19;
+
+/**
+ * What the map uses when no `baseLayers` prop is passed.
+ */
+export const DEFAULT_BASE_LAYERS: BaseLayerConfig[] = [
+    {
+        id: "osm",
+        label: "OpenStreetMap",
+        kind: "xyz",
+        url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+        attribution: OSM_ATTRIBUTION,
+        maxZoom: 19,
+    },
+];
+
+/**
+ * Standard Web Mercator tile grid (level n = 2^n tiles across).
+ * Matches what "EPSG:3857" / "GoogleMapsCompatible" WMTS matrix sets use.
+ */
+function webMercatorTileGrid(maxZoom: number, matrixIdPrefix = ""): WMTSTileGrid {
+    const extent = getProjection("EPSG:3857")!.getExtent();
+    const size = getWidth(extent) / 256;
+
+    const resolutions: number[] = [];
+    const matrixIds: string[] = [];
+
+    for (let z = 0; z <= maxZoom; z++) {
+        resolutions.push(size / Math.pow(2, z));
+        matrixIds.push(`${matrixIdPrefix}${z}`);
+    }
+
+    return new WMTSTileGrid({ origin: getTopLeft(extent), resolutions, matrixIds });
+}
+
+/**
+ * Build the OL tile source for one base layer config.
+ */
+export function createBaseLayerSource(config: BaseLayerConfig): TileSource {
+    const maxZoom = config.maxZoom ?? DEFAULT_MAX_ZOOM;
+    const attributions = config.attribution;
+
+    switch (config.kind) {
+        case "xyz":
+            return new XYZ({ url: config.url, maxZoom, attributions });
+
+        case "mbtiles":
+            // OL understands {-y} as the flipped (TMS) row
+            return new XYZ({
+                url: config.scheme === "tms" ? config.url.replace("{y}", "{-y}") : config.url,
+                maxZoom,
+                attributions,
+            });
+
+        case "wmts":
+            return new WMTS({
+                url: config.url,
+                layer: config.layer,
+                matrixSet: config.matrixSet,
+                format: config.format ?? "image/png",
+                style: config.style ?? "default",
+                tileGrid: webMercatorTileGrid(maxZoom, config.matrixIdPrefix),
+                attributions,
+            });
+    }
+}
@@ -0,0 +1,131 @@
+import * as mgrs from "mgrs";
+
+import type { CoordinateFormat } from "./coordinateParser";
+import { latLonToUtm, latitudeBand } from "./utm";
+
+/* ============================================================
+   Coordinate display formatting
+   ============================================================
+   The other half of coordinateParser: turns [lat, lon] into text
+   in whichever format the user picked (held in MapDataContext).
+   Every format produced here parses back with parseCoordinate.
+*/
+
+// MGRS digits per easting/northing: 1 = 10 km ... 5 = 1 m
+export type MgrsPrecision = 1 | 2 | 3 | 4 | 5;
+
+export type CoordinateDisplay = {
+    format: CoordinateFormat;
+    mgrsPrecision: MgrsPrecision; // only used by the "mgrs" format
+};
+
+export const DEFAULT_COORDINATE_DISPLAY: CoordinateDisplay = {
+    format: "decimal",
+    mgrsPrecision: 5,
+};
+
+export const MGRS_PRECISION_LABELS: Record<MgrsPrecision, string> = {
+    1: "10 km",
+    2: "1 km",
+    3: "100 m",
+    4: "10 m",
+    5: "1 m",
+};
+
+/**
+ * Splits |value| into whole degrees, minutes and seconds, rounding
+ * seconds to `decimals` and carrying so we never print 60".
+ */
+function toDms(value: number, decimals: number): [number, number, number] {
+    const scale = 10 ** decimals;
+    let totalSeconds = Math.round(Math.abs(value) * 3600 * scale) / scale;
+
+    const degrees = Math.floor(totalSeconds / 3600);
+    totalSeconds -= degrees * 3600;
+    const minutes = Math.floor(totalSeconds / 60);
+
+    return [degrees, minutes, totalSeconds - minutes * 60];
+}
+
+function formatDms(value: number, positive: string, negative: string): string {
+    const [deg, min, sec] = toDms(value, 1);
+    const seconds = sec.toFixed(1).padStart(4, "0");
+    return `${deg}°${String(min).padStart(2, "0")}'${seconds}"${value < 0 ? negative : positive}`;
+}
+
+function formatDdm(value: number, positive: string, negative: string): string {
+    // Round minutes first so 59.9999' becomes the next degree
+    const totalMinutes = Math.round(Math.abs(value) * 60 * 1000) / 1000;
+    const deg = Math.floor(totalMinutes / 60);
+    const minutes = (totalMinutes - deg * 60).toFixed(3).padStart(6, "0");
+    return `${deg}°${minutes}'${value < 0 ? negative : positive}`;
+}
+
+/**
+ * "16SEG1234567890" -> "16S EG 12345 67890"
+ */
+function spaceMgrs(reference: string): string {
+    const match = /^(\d{1,2}[A-Z])([A-Z]{2})(\d*)$/.exec(reference);
+    if (!match) return reference;
+
+    const digits = match[3];
+    const half = digits.length / 2;
+    return [match[1], match[2], digits.slice(0, half), digits.slice(half)].filter(Boolean).join(" ");
+}
+
+export function formatDecimal(lat: number, lon: number): string {
+    return `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
+}
+
+/**
+ * Compact MGRS ("16SEG1234567890", what markers store), or undefined near
+ * the poles where MGRS switches to UPS (mgrs.forward throws there).
+ */
+export function toMgrs(lat: number, lon: number, precision: MgrsPrecision = 5): string | undefined {
+    if (lat < -80 || lat > 84) return undefined;
+
+    try {
+        return mgrs.forward([lon, lat], precision) as string;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Spaced MGRS at the given precision, or undefined where toMgrs is.
+ */
+export function formatMgrs(lat: number, lon: number, precision: MgrsPrecision = 5): string | undefined {
+    const reference = toMgrs(lat, lon, precision);
+    return reference && spaceMgrs(reference);
+}
+
+export function formatUtm(lat: number, lon: number): string | undefined {
+    const band = latitudeBand(lat);
+    if (!band) return undefined;
+
+    const { zone, easting, northing } = latLonToUtm(lat, lon);
+    return `${zone}${band} ${Math.floor(easting)}E ${Math.floor(northing)}N`;
+}
+
+/**
+ * Formats a position for display. MGRS/UTM fall back to decimal
+ * degrees where they aren't defined (beyond 80S / 84N).
+ */
+export function formatCoordinate(
+    lat: number,
+    lon: number,
+    display: CoordinateDisplay = DEFAULT_COORDINATE_DISPLAY
+): string {
+    switch (display.format) {
+        case "dms":
+            return `${formatDms(lat, "N", "S")} ${formatDms(lon, "E", "W")}`;
+        case "ddm":
+            return `${formatDdm(lat, "N", "S")} ${formatDdm(lon, "E", "W")}`;
+        case "mgrs":
+            return formatMgrs(lat, lon, display.mgrsPrecision) ?? formatDecimal(lat, lon);
+        case "utm":
+            return formatUtm(lat, lon) ?? formatDecimal(lat, lon);
+        default:
+            return formatDecimal(lat, lon);
+    }
+}
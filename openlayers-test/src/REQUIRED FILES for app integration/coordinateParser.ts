@@ -0,0 +1,370 @@
+import * as mgrs from "mgrs";
+
+import type { LatLon } from "./types";
+import { bandLatitudeRange, utmToLatLon } from "./utm";
+
+/* ============================================================
+   Coordinate parser
+   ============================================================
+   One entry point for everything people paste into the top bar:
+   decimal degrees (signed or with N/S/E/W), DMS, DDM, MGRS and
+   UTM. Returns [lat, lon] plus what it thinks the input was, and
+   warnings for anything it had to guess.
+*/
+
+export type CoordinateFormat = "decimal" | "dms" | "ddm" | "mgrs" | "utm";
+
+export type ParsedCoordinate = {
+    latLon: LatLon;
+    format: CoordinateFormat;
+    mgrs?: string; // normalized reference when the input was MGRS
+    swapped: boolean; // input was written lon first
+    ambiguous: boolean; // lat/lon order was a guess (no hemisphere letters or "lat, lon" comma, both values fit either)
+    warnings: string[]; // guesses worth showing to the user
+};
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+    decimal: "Decimal degrees",
+    dms: "DMS",
+    ddm: "DDM",
+    mgrs: "MGRS",
+    utm: "UTM",
+};
+
+export const COORDINATE_EXAMPLES = [
+    "33.75, -84.39",
+    "33.75N 84.39W",
+    "33°45'00\"N 84°23'24\"W",
+    "33°45.000'N 84°23.400'W",
+    "16SEG1234567890",
+    "16S 741500 3737000",
+];
+
+/* ============================================================
+   MGRS / UTM
+   ============================================================ */
+
+const MGRS_PATTERN = /^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z]{2})(\d*)$/;
+
+const UTM_PATTERN =
+    /^(\d{1,2})\s*([C-HJ-NP-X]|NORTH|SOUTH)?[\s,]+(\d{5,7}(?:\.\d+)?)\s*M?E?[\s,]+(\d{1,8}(?:\.\d+)?)\s*M?N?$/;
+
+// Band letters are 8 degrees tall; allow a little slop for sloppy eastings
+const BAND_TOLERANCE = 0.5;
+
+function parseMgrs(text: string): ParsedCoordinate | null {
+    const compact = text.replace(/\s+/g, "");
+    const match = MGRS_PATTERN.exec(compact);
+    if (!match) return null;
+
+    if (match[4].length % 2 !== 0) {
+        throw new Error("MGRS easting and northing need the same number of digits");
+    }
+
+    let point: [number, number];
+    try {
+        point = mgrs.toPoint(compact) as [number, number];
+    } catch {
+        throw new Error(`"${compact}" is not a valid MGRS reference`);
+    }
+
+    const [lon, lat] = point;
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+        throw new Error(`"${compact}" is not a valid MGRS reference`);
+    }
+
+    return { latLon: [lat, lon], format: "mgrs", mgrs: compact, swapped: false, ambiguous: false, warnings: [] };
+}
+
+function inBand(lat: number, band: string): boolean {
+    const range = bandLatitudeRange(band);
+    return !!range && lat >= range[0] - BAND_TOLERANCE && lat <= range[1] + BAND_TOLERANCE;
+}
+
+function parseUtm(text: string): ParsedCoordinate | null {
+    const match = UTM_PATTERN.exec(text);
+    if (!match) return null;
+
+    const zone = Number(match[1]);
+    const letter = match[2];
+    const easting = Number(match[3]);
+    const northing = Number(match[4]);
+    const warnings: string[] = [];
+
+    if (zone < 1 || zone > 60) throw new Error(`UTM zone must be 1-60, got ${zone}`);
+    if (easting < 100000 || easting > 900000) throw new Error("UTM easting should be between 100000 and 900000");
+    if (northing > 10000000) throw new Error("UTM northing should be at most 10000000");
+
+    const toLatLon = (hemisphere: "N" | "S") => utmToLatLon({ zone, hemisphere, easting, northing });
+
+    let latLon: [number, number];
+
+    if (!letter) {
+        latLon = toLatLon("N");
+        warnings.push("No hemisphere or latitude band given; assumed northern hemisphere");
+    } else if (letter === "NORTH" || letter === "SOUTH") {
+        latLon = toLatLon(letter === "NORTH" ? "N" : "S");
+    } else {
+        // A single letter is a latitude band, except people also write "S" for south
+        const asBand = toLatLon(letter < "N" ? "S" : "N");
+
+        if (letter === "S") {
+            const asSouth = toLatLon("S");
+            if (inBand(asBand[0], "S")) {
+                latLon = asBand;
+                warnings.push('Read "S" as latitude band S (32°N-40°N); write "south" for the southern hemisphere');
+            } else {
+                latLon = asSouth;
+                warnings.push('Read "S" as southern hemisphere (position is outside latitude band S)');
+            }
+        } else {
+            latLon = asBand;
+            if (!inBand(latLon[0], letter)) {
+                throw new Error(`UTM position is not inside latitude band ${letter}`);
+            }
+        }
+    }
+
+    return { latLon, format: "utm", swapped: false, ambiguous: false, warnings };
+}
+
+/* ============================================================
+   Degrees (decimal / DDM / DMS)
+   ============================================================ */
+
+type Token =
+    | { kind: "number"; value: number; negative: boolean; unit?: "deg" | "min" | "sec" }
+    | { kind: "hemisphere"; letter: "N" | "S" | "E" | "W" }
+    | { kind: "comma" };
+
+type Component = {
+    parts: Array<Extract<Token, { kind: "number" }>>;
+    hemisphere?: "N" | "S" | "E" | "W";
+};
+
+const UNIT_SYMBOLS: Record<string, "deg" | "min" | "sec"> = {
+    "°": "deg",
+    "'": "min",
+    '"': "sec",
+};
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:([NSEW])|([+-]?\d+(?:\.\d+)?)\s*(°|''|'|"|:)?|(,))/y;
+
+    let index = 0;
+    while (index < text.length) {
+        pattern.lastIndex = index;
+        const match = pattern.exec(text);
+
+        if (!match) {
+            if (!text.slice(index).trim()) break;
+            throw new Error(`Unexpected "${text.slice(index).trim()[0]}" in coordinates`);
+        }
+        index = pattern.lastIndex;
+
+        if (match[1]) {
+            tokens.push({ kind: "hemisphere", letter: match[1] as "N" | "S" | "E" | "W" });
+        } else if (match[2]) {
+            const symbol = match[3] === "''" ? '"' : match[3];
+            tokens.push({
+                kind: "number",
+                value: Math.abs(Number(match[2])),
+                negative: match[2].startsWith("-"),
+                unit: symbol ? UNIT_SYMBOLS[symbol] : undefined,
+            });
+        } else if (match[4]) {
+            tokens.push({ kind: "comma" });
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Splits tokens into the two halves of the pair. Uses, in order:
+ * a comma, hemisphere letters, degree symbols, then an even split.
+ */
+function splitComponents(tokens: Token[]): [Component, Component] {
+    const groups: Token[][] = [[]];
+    const commas = tokens.filter((t) => t.kind === "comma").length;
+    const hemispheres = tokens.filter((t) => t.kind === "hemisphere").length;
+    const degreeMarks = tokens.filter((t) => t.kind === "number" && t.unit === "deg").length;
+    const prefixHemispheres = tokens[0]?.kind === "hemisphere";
+
+    tokens.forEach((token) => {
+        const current = groups[groups.length - 1];
+
+        if (token.kind === "comma") {
+            if (commas === 1) groups.push([]);
+            return;
+        }
+
+        if (commas !== 1 && hemispheres > 0 && token.kind === "hemisphere") {
+            if (prefixHemispheres && current.length > 0) {
+                groups.push([token]);
+                return;
+            }
+            if (!prefixHemispheres) {
+                current.push(token);
+                groups.push([]);
+                return;
+            }
+        }
+
+        if (commas !== 1 && hemispheres !== 2 && degreeMarks === 2 && token.kind === "number" && token.unit === "deg") {
+            if (current.some((t) => t.kind === "number")) {
+                groups.push([token]);
+                return;
+            }
+        }
+
+        current.push(token);
+    });
+
+    const nonEmpty = groups.filter((g) => g.length > 0);
+
+    // Bare numbers ("33 45 84 23"): split down the middle
+    if (nonEmpty.length === 1) {
+        const numbers = nonEmpty[0].filter((t) => t.kind === "number");
+        if (numbers.length !== nonEmpty[0].length || numbers.length % 2 !== 0) {
+            throw new Error("Could not tell where latitude ends and longitude starts; separate them with a comma");
+        }
+        nonEmpty.splice(0, 1, numbers.slice(0, numbers.length / 2), numbers.slice(numbers.length / 2));
+    }
+
+    if (nonEmpty.length !== 2) {
+        throw new Error("Expected exactly two coordinates (latitude and longitude)");
+    }
+
+    return nonEmpty.map((group) => {
+        const component: Component = { parts: [] };
+        group.forEach((token) => {
+            if (token.kind === "number") {
+                component.parts.push(token);
+            } else if (token.kind === "hemisphere") {
+                if (component.hemisphere) throw new Error("Two hemisphere letters on one coordinate");
+                component.hemisphere = token.letter;
+            }
+        });
+        return component;
+    }) as [Component, Component];
+}
+
+function componentFormat(component: Component): CoordinateFormat {
+    const count = component.parts.length;
+    if (count === 1) return "decimal";
+    if (count === 2) return "ddm";
+    if (count === 3) return "dms";
+    throw new Error("Each coordinate needs 1 to 3 numbers (degrees, minutes, seconds)");
+}
+
+/**
+ * Unsigned degrees from degrees/minutes/seconds parts, with the sign separately.
+ */
+function componentValue(component: Component): { degrees: number; negative: boolean } {
+    const [deg, min, sec] = component.parts;
+
+    if (component.parts.slice(1).some((p) => p.negative)) {
+        throw new Error("Only the degrees can carry a minus sign");
+    }
+    if (component.parts.length > 1 && !Number.isInteger(deg.value)) {
+        throw new Error("Degrees must be whole when minutes are given");
+    }
+    if (min && min.value >= 60) throw new Error("Minutes must be less than 60");
+    if (sec && sec.value >= 60) throw new Error("Seconds must be less than 60");
+    if (sec && !Number.isInteger(min.value)) throw new Error("Minutes must be whole when seconds are given");
+
+    if (deg.negative && component.hemisphere) {
+        throw new Error("Use either a minus sign or a hemisphere letter, not both");
+    }
+
+    return {
+        degrees: deg.value + (min?.value ?? 0) / 60 + (sec?.value ?? 0) / 3600,
+        negative: deg.negative || component.hemisphere === "S" || component.hemisphere === "W",
+    };
+}
+
+const isLatHemisphere = (h?: string) => h === "N" || h === "S";
+const isLonHemisphere = (h?: string) => h === "E" || h === "W";
+
+function parseDegrees(text: string): ParsedCoordinate {
+    const tokens = tokenize(text);
+    const [first, second] = splitComponents(tokens);
+
+    const format = componentFormat(first);
+    if (componentFormat(second) !== format) {
+        throw new Error("Latitude and longitude are written in different formats");
+    }
+
+    const a = componentValue(first);
+    const b = componentValue(second);
+    const warnings: string[] = [];
+
+    // Decide which half is latitude
+    let swapped: boolean;
+    let ambiguous = false;
+    if (isLonHemisphere(first.hemisphere) || isLatHemisphere(second.hemisphere)) {
+        swapped = true;
+    } else if (isLatHemisphere(first.hemisphere) || isLonHemisphere(second.hemisphere)) {
+        swapped = false;
+    } else if (a.degrees > 90 && b.degrees <= 90) {
+        swapped = true;
+        warnings.push("First value is over 90, so read the input as longitude, latitude");
+    } else if (b.degrees > 90) {
+        swapped = false;
+    } else if (format === "decimal" && tokens.some((t) => t.kind === "comma")) {
+        // "33.75, -84.39" is how everyone writes a pair: latitude first
+        swapped = false;
+    } else {
+        // Both fit either axis: nothing in the input says which comes first
+        swapped = false;
+        ambiguous = true;
+        warnings.push(
+            "Can't tell latitude from longitude (no N/S/E/W and both values are within 90); read as latitude, longitude"
+        );
+    }
+
+    if (
+        (first.hemisphere && second.hemisphere) &&
+        isLatHemisphere(first.hemisphere) === isLatHemisphere(second.hemisphere)
+    ) {
+        throw new Error("Need one N/S and one E/W hemisphere letter");
+    }
+
+    const lat = swapped ? b : a;
+    const lon = swapped ? a : b;
+
+    if (lat.degrees > 90) throw new Error("Latitude must be between -90 and 90");
+    if (lon.degrees > 180) throw new Error("Longitude must be between -180 and 180");
+
+    return {
+        latLon: [lat.negative ? -lat.degrees : lat.degrees, lon.negative ? -lon.degrees : lon.degrees],
+        format,
+        swapped,
+        ambiguous,
+        warnings,
+    };
+}
+
+/* ============================================================
+   Entry point
+   ============================================================ */
+
+/**
+ * Parses one coordinate in any supported format.
+ * Throws an Error with a user-facing message if it can't.
+ */
+export function parseCoordinate(input: string): ParsedCoordinate {
+    const text = input
+        .trim()
+        .toUpperCase()
+        .replace(/[º˚]/g, "°")
+        .replace(/[′‘’`´]/g, "'")
+        .replace(/[″“”]/g, '"')
+        .replace(/\s+/g, " ");
+
+    if (!text) throw new Error("Empty input");
+
+    return parseMgrs(text) ?? parseUtm(text) ?? parseDegrees(text);
+}
@@ -0,0 +1,231 @@
+import * as mgrs from "mgrs";
+
+import type { NewHeatPointData } from "./MapDataContext";
+
+/* ============================================================
+   CSV incident import (heatmap)
+   ============================================================ */
+
+/**
+ * Which column (index into the header row) feeds which field.
+ * Location comes from lat+lon, or MGRS when lat/lon aren't mapped/filled.
+ */
+export type CsvColumnMapping = {
+    lat?: number;
+    lon?: number;
+    mgrs?: number;
+    weight?: number;
+    name?: number;
+    timestamp?: number;
+};
+
+export type CsvField = keyof CsvColumnMapping;
+
+export const CSV_FIELDS: CsvField[] = ["lat", "lon", "mgrs", "weight", "name", "timestamp"];
+
+/**
+ * One parsed record and the file line it starts on (quoted fields can
+ * span lines, and blank lines are dropped, so the index isn't enough).
+ */
+export type CsvRow = {
+    line: number; // 1-based
+    cells: string[];
+};
+
+export type CsvRejectedRow = {
+    row: number; // 1-based line number in the file where the record starts
+    reason: string;
+};
+
+export type CsvHeatImport = {
+    points: NewHeatPointData[];
+    rejected: CsvRejectedRow[];
+    totalRows: number;
+};
+
+// Header names we recognise when guessing the mapping (lowercased, no spaces/underscores)
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+    lat: ["lat", "latitude", "y"],
+    lon: ["lon", "lng", "long", "longitude", "x"],
+    mgrs: ["mgrs", "grid", "gridref", "mgrsgrid"],
+    weight: ["weight", "intensity", "severity", "score"],
+    name: ["name", "title", "label", "incident", "description"],
+    timestamp: ["timestamp", "time", "date", "datetime", "reportedat"],
+};
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, doubled quotes, CRLF/LF.
+ * Blank lines are dropped; each row keeps the line it started on.
+ */
+export function parseCsv(text: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        // CRLF counts once; a lone CR is a line break too
+        const isLineBreak = ch === "\n" || (ch === "\r" && text[i + 1] !== "\n");
+        if (isLineBreak) line++;
+
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+            continue;
+        }
+
+        if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ",") {
+            row.push(field);
+            field = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && text[i + 1] === "\n") {
+                i++;
+                line++;
+            }
+            row.push(field);
+            rows.push({ line: rowLine, cells: row });
+            row = [];
+            field = "";
+            rowLine = line;
+        } else {
+            field += ch;
+        }
+    }
+
+    // Last line without a trailing newline
+    if (field !== "" || row.length) {
+        row.push(field);
+        rows.push({ line: rowLine, cells: row });
+    }
+
+    return rows.filter((r) => r.cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * One CSV line, quoting fields that need it (the inverse of parseCsv).
+ */
+export function formatCsvRow(cells: string[]): string {
+    return cells
+        .map((cell) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+        .join(",");
+}
+
+/**
+ * Best-effort mapping from header names. The UI lets the user fix it.
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+    const normalized = headers.map((h) => h.toLowerCase().replace(/[\s_-]/g, ""));
+    const mapping: CsvColumnMapping = {};
+
+    CSV_FIELDS.forEach((field) => {
+        const index = normalized.findIndex((h) => HEADER_ALIASES[field].includes(h));
+        if (index !== -1) mapping[field] = index;
+    });
+
+    return mapping;
+}
+
+// Smallest number read as an epoch (1e8 s is early 1973). Shorter numbers
+// like "2024" are left to Date.parse, which reads them as years.
+const MIN_EPOCH_SECONDS = 1e8;
+
+/**
+ * Epoch seconds, epoch millis or anything Date.parse understands.
+ */
+function parseTimestamp(raw: string): number | null {
+    const asNumber = Number(raw);
+    if (Number.isFinite(asNumber) && Math.abs(asNumber) >= MIN_EPOCH_SECONDS) {
+        // Anything this small is almost certainly seconds, not millis
+        return asNumber < 1e11 ? asNumber * 1000 : asNumber;
+    }
+
+    const parsed = Date.parse(raw);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Turn parsed CSV rows (header first) into heat points.
+ * Every row is either imported or listed in `rejected` with a reason.
+ */
+export function csvToHeatPoints(
+    rows: CsvRow[],
+    mapping: CsvColumnMapping,
+    defaultWeight = 1
+): CsvHeatImport {
+    const result: CsvHeatImport = { points: [], rejected: [], totalRows: Math.max(rows.length - 1, 0) };
+
+    const hasLatLon = mapping.lat !== undefined && mapping.lon !== undefined;
+    if (!hasLatLon && mapping.mgrs === undefined) {
+        throw new Error("Map either both Lat and Lon columns, or an MGRS column");
+    }
+
+    const cell = (row: string[], index: number | undefined) =>
+        index === undefined ? "" : (row[index] ?? "").trim();
+
+    rows.slice(1).forEach(({ line, cells: row }) => {
+        const reject = (reason: string) => result.rejected.push({ row: line, reason });
+
+        let lat: number;
+        let lon: number;
+
+        const latText = cell(row, mapping.lat);
+        const lonText = cell(row, mapping.lon);
+        const mgrsText = cell(row, mapping.mgrs);
+
+        if (hasLatLon && (latText || lonText)) {
+            lat = Number(latText);
+            lon = Number(lonText);
+
+            if (!latText || !lonText || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+                return reject(`lat/lon "${latText}, ${lonText}" is not a number pair`);
+            }
+            if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+                return reject(`lat/lon ${lat}, ${lon} out of range`);
+            }
+        } else if (mgrsText) {
+            try {
+                [lon, lat] = mgrs.toPoint(mgrsText.replace(/\s+/g, "")) as [number, number];
+            } catch {
+                return reject(`MGRS "${mgrsText}" could not be parsed`);
+            }
+        } else {
+            return reject("no location (empty lat/lon and MGRS)");
+        }
+
+        const weightText = cell(row, mapping.weight);
+        const weight = weightText ? Number(weightText) : defaultWeight;
+        if (!Number.isFinite(weight) || weight < 0 || weight > 1) {
+            return reject(`weight "${weightText}" must be between 0 and 1`);
+        }
+
+        const timestampText = cell(row, mapping.timestamp);
+        let timestamp: number | undefined;
+        if (timestampText) {
+            const parsed = parseTimestamp(timestampText);
+            if (parsed === null) return reject(`timestamp "${timestampText}" not recognised`);
+            timestamp = parsed;
+        }
+
+        result.points.push({
+            lat,
+            lon,
+            weight,
+            name: cell(row, mapping.name) || undefined,
+            timestamp,
+        });
+    });
+
+    return result;
+}
@@ -0,0 +1,108 @@
+import type { MapEvent, LatLon } from "./types";
+import type { MapBusEvent, MapEventType } from "./mapEvents";
+import { formatCsvRow } from "./csv";
+
+/* ============================================================
+   Structured event history (kept by MapDataProvider)
+   ============================================================ */
+
+export type MapEventRecord = {
+    seq: number; // increases per provider; handy React key
+    timestamp: string; // ISO 8601, UTC
+    event: MapEvent;
+    summary: string; // human-readable line, written when the event happened
+};
+
+export type EventLogFilter = {
+    types?: MapEventType[]; // empty / missing = every type
+    search?: string; // case-insensitive, matches summary, ids and type
+};
+
+function formatLatLon([lat, lon]: LatLon): string {
+    return `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+}
+
+/**
+ * One-line description. Uses the payload when we have it (labels, MGRS),
+ * since ids alone don't mean much in an after-action report.
+ */
+export function describeMapEvent(event: MapBusEvent): string {
+    switch (event.type) {
+        case "markerAdded":
+            return event.payload
+                ? `${event.payload.label} added at ${formatLatLon(event.coordinates)}${event.payload.mgrs ? ` (${event.payload.mgrs})` : ""}`
+                : `Marker added at ${formatLatLon(event.coordinates)}`;
+        case "markerRemoved":
+            return `${event.payload?.label ?? "Marker"} removed at ${formatLatLon(event.coordinates)}`;
+        case "markerMoved":
+            return `${event.payload?.label ?? "Marker"} moved to ${formatLatLon(event.coordinates)}`;
+        case "markerUpdated":
+            return `Marker updated: ${event.payload?.label ?? event.markerId} (${event.changedFields.join(", ")})`;
+        case "clusterClicked":
+            return `Cluster clicked (${event.markerIds.length} markers)`;
+        case "zoneClicked":
+            return `Zone clicked: ${event.payload?.name ?? event.zoneId}`;
+        case "zoneCreated":
+            return `Zone created: ${event.payload?.name ?? event.zoneId}`;
+        case "zoneModified":
+            return `Zone reshaped: ${event.payload?.name ?? event.zoneId}`;
+        case "geofenceAlert":
+            return `${event.payload?.marker.label ?? "Marker"} entered ${event.payload?.zone.name ?? event.zoneId} (risk ${event.riskScore})`;
+        case "featureClicked":
+            return `${event.featureType} clicked (${event.featureId})`;
+        default:
+            return (event as MapEvent).type;
+    }
+}
+
+/**
+ * Where the event happened, if it has a location.
+ */
+export function eventCoordinates(event: MapEvent): LatLon | null {
+    return "coordinates" in event ? event.coordinates : null;
+}
+
+export function filterEventLog(records: MapEventRecord[], filter: EventLogFilter): MapEventRecord[] {
+    const types = filter.types?.length ? new Set(filter.types) : null;
+    const search = filter.search?.trim().toLowerCase();
+
+    return records.filter((record) => {
+        if (types && !types.has(record.event.type)) return false;
+        if (!search) return true;
+
+        // Searching the raw event too means ids and types match without extra fields
+        const haystack = `${record.summary} ${JSON.stringify(record.event)}`.toLowerCase();
+        return haystack.includes(search);
+    });
+}
+
+/* ============================================================
+   Export
+   ============================================================ */
+
+export function eventLogToJSON(records: MapEventRecord[]): string {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), events: records }, null, 2);
+}
+
+/**
+ * One row per event. The full event goes in the last column as JSON so
+ * nothing is lost for events with extra fields.
+ */
+export function eventLogToCSV(records: MapEventRecord[]): string {
+    const header = formatCsvRow(["timestamp", "type", "summary", "lat", "lon", "event"]);
+
+    const rows = records.map((record) => {
+        const coords = eventCoordinates(record.event);
+
+        return formatCsvRow([
+            record.timestamp,
+            record.event.type,
+            record.summary,
+            coords ? String(coords[0]) : "",
+            coords ? String(coords[1]) : "",
+            JSON.stringify(record.event),
+        ]);
+    });
+
+    return [header, ...rows].join("\r\n");
+}
@@ -0,0 +1,28 @@
+/* ============================================================
+   Browser file helpers (download / timestamped names)
+   ============================================================ */
+
+/**
+ * Trigger a download of some text as a file.
+ * Uses a temporary object URL + <a download>, which every browser we care about supports.
+ */
+export function downloadTextFile(filename: string, text: string, mimeType: string): void {
+    const blob = new Blob([text], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * "map-data-2024-05-01T12-30-00" style names so exports don't overwrite each other.
+ */
+export function timestampedFilename(base: string, extension: string): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+    return `${base}-${stamp}.${extension}`;
+}
@@ -0,0 +1,66 @@
+import type { MarkerData, ZoneData } from "./MapDataContext";
+import { zoneContains } from "./spatial";
+
+/* ============================================================
+   Geofencing
+   ============================================================
+   MapDataProvider runs this on every marker write (add, move,
+   import, undo/redo) and publishes a geofenceAlert for every zone
+   a marker has just entered whose risk is at or above the
+   threshold. Muted zones never alert.
+*/
+
+// Same cut-off as the "high" risk bucket the zones are colored by
+export const DEFAULT_GEOFENCE_THRESHOLD = 80;
+
+export function isGeofenced(zone: ZoneData, threshold: number, mutedZoneIds: ReadonlySet<string>): boolean {
+    return !mutedZoneIds.has(zone.id) && zone.riskScore >= threshold;
+}
+
+export type GeofenceCheck = {
+    inside: Set<string>; // ids of every zone the marker is in now
+    entered: ZoneData[]; // the ones that should alert
+};
+
+/**
+ * Compares the marker's zones with where it was last time
+ * (`previouslyInside`), so moving around inside a zone alerts once.
+ */
+export function checkGeofences(
+    marker: MarkerData,
+    zones: Iterable<ZoneData>,
+    previouslyInside: ReadonlySet<string>,
+    threshold: number,
+    mutedZoneIds: ReadonlySet<string>
+): GeofenceCheck {
+    const inside = new Set<string>();
+    const entered: ZoneData[] = [];
+
+    for (const zone of zones) {
+        if (!zoneContains(zone, marker.lat, marker.lon)) continue;
+
+        inside.add(zone.id);
+        if (!previouslyInside.has(zone.id) && isGeofenced(zone, threshold, mutedZoneIds)) entered.push(zone);
+    }
+
+    return { inside, entered };
+}
+
+/**
+ * Markers that are new or sit somewhere else in `next` than in `prev`
+ * (the only ones a write can have moved into a zone), plus the ids
+ * that are gone.
+ */
+export function changedMarkers(
+    prev: ReadonlyMap<string, MarkerData>,
+    next: ReadonlyMap<string, MarkerData>
+): { placed: MarkerData[]; removedIds: string[] } {
+    const placed: MarkerData[] = [];
+    next.forEach((marker, id) => {
+        const before = prev.get(id);
+        if (!before || before.lat !== marker.lat || before.lon !== marker.lon) placed.push(marker);
+    });
+
+    const removedIds = Array.from(prev.keys()).filter((id) => !next.has(id));
+    return { placed, removedIds };
+}
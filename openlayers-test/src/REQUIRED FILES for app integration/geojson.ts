@@ -0,0 +1,271 @@
+
+import type { FeatureProperties, LonLat } from "./types";
+import { isMarkerFeature, isZoneFeature, isHeatFeature } from "./types";
+import type { MarkerData, ZoneData, HeatPointData } from "./MapDataContext";
+import { DEFAULT_MARKER_CATEGORY, getMarkerIcon, sanitizeMarkerColor } from "./markerIcons";
+import { toMgrs } from "./coordinateFormat";
+
+/* ============================================================
+   GeoJSON shapes (only the parts we actually read/write)
+   ============================================================ */
+
+type PointGeometry = { type: "Point"; coordinates: LonLat };
+type PolygonGeometry = { type: "Polygon"; coordinates: LonLat[][] };
+
+/**
+ * Properties we write out. Same discriminator and field names as
+ * FeatureProperties, minus `lonLat`/`coordinates` (the geometry has those).
+ */
+type ExportedProperties =
+    | {
+          type: "marker";
+          id: string;
+          name: string;
+          category: string;
+          color?: string;
+          notes?: string;
+          mgrs: string;
+          timestamp: number;
+      }
+    | { type: "zone"; id: string; name: string; riskScore: number; reason?: string; owner?: string }
+    | { type: "heat"; id: string; name: string; weight: number; timestamp?: number };
+
+export type MapFeatureCollection = {
+    type: "FeatureCollection";
+    features: Array<{
+        type: "Feature";
+        id: string;
+        geometry: PointGeometry | PolygonGeometry;
+        properties: ExportedProperties;
+    }>;
+};
+
+/**
+ * Everything we can export/import in one go.
+ * Importers return this plus a list of features they had to skip.
+ */
+export type MapDataSnapshot = {
+    markers: MarkerData[];
+    zones: ZoneData[];
+    heatPoints: HeatPointData[];
+};
+
+export type MapDataImport = MapDataSnapshot & {
+    skipped: string[]; // human-readable reason per rejected feature
+};
+
+/* ============================================================
+   Export
+   ============================================================ */
+
+export function toGeoJSON(data: MapDataSnapshot): MapFeatureCollection {
+    const markers = data.markers.map((m) => ({
+        type: "Feature" as const,
+        id: m.id,
+        geometry: { type: "Point" as const, coordinates: [m.lon, m.lat] as LonLat },
+        properties: {
+            type: "marker" as const,
+            id: m.id,
+            name: m.label,
+            category: m.category,
+            color: m.color,
+            notes: m.notes,
+            mgrs: m.mgrs,
+            timestamp: m.timestamp,
+        },
+    }));
+
+    const zones = data.zones.map((z) => ({
+        type: "Feature" as const,
+        id: z.id,
+        geometry: { type: "Polygon" as const, coordinates: [z.coordinates] },
+        properties: {
+            type: "zone" as const,
+            id: z.id,
+            name: z.name,
+            riskScore: z.riskScore,
+            reason: z.reason,
+            owner: z.owner,
+        },
+    }));
+
+    const heat = data.heatPoints.map((h) => ({
+        type: "Feature" as const,
+        id: h.id,
+        geometry: { type: "Point" as const, coordinates: [h.lon, h.lat] as LonLat },
+        properties: {
+            type: "heat" as const,
+            id: h.id,
+            name: h.name,
+            weight: h.weight,
+            timestamp: h.timestamp,
+        },
+    }));
+
+    return { type: "FeatureCollection", features: [...markers, ...zones, ...heat] };
+}
+
+/* ============================================================
+   Import
+   ============================================================ */
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPosition(value: unknown): value is LonLat {
+    return (
+        Array.isArray(value) &&
+        value.length >= 2 &&
+        typeof value[0] === "number" &&
+        typeof value[1] === "number" &&
+        Math.abs(value[0]) <= 180 &&
+        Math.abs(value[1]) <= 90
+    );
+}
+
+function readPoint(geometry: unknown): LonLat | null {
+    if (!isRecord(geometry) || geometry.type !== "Point") return null;
+    if (!isPosition(geometry.coordinates)) return null;
+
+    // Drop altitude if present
+    return [geometry.coordinates[0], geometry.coordinates[1]];
+}
+
+function readPolygonRing(geometry: unknown): LonLat[] | null {
+    if (!isRecord(geometry) || geometry.type !== "Polygon") return null;
+    if (!Array.isArray(geometry.coordinates)) return null;
+
+    // Outer ring only; holes aren't something zones support
+    const ring: unknown = geometry.coordinates[0];
+    if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition)) return null;
+
+    return ring.map((pos: LonLat) => [pos[0], pos[1]] as LonLat);
+}
+
+/**
+ * Id for an imported feature that didn't bring its own.
+ * Includes the import time so two files without ids don't overwrite each other.
+ */
+export function importedFeatureId(index: number): string {
+    return `imported-${Date.now()}-${index}`;
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection produced by toGeoJSON (or anything that
+ * uses the same `type: marker|zone|heat` properties).
+ *
+ * Throws if the file isn't a FeatureCollection at all. Individual features
+ * that don't validate are skipped and listed in `skipped`.
+ */
+export function fromGeoJSON(json: unknown): MapDataImport {
+    if (!isRecord(json) || json.type !== "FeatureCollection" || !Array.isArray(json.features)) {
+        throw new Error("Not a GeoJSON FeatureCollection");
+    }
+
+    const result: MapDataImport = { markers: [], zones: [], heatPoints: [], skipped: [] };
+
+    json.features.forEach((feature: unknown, index) => {
+        const label = `Feature ${index + 1}`;
+
+        if (!isRecord(feature) || !isRecord(feature.properties)) {
+            result.skipped.push(`${label}: missing properties`);
+            return;
+        }
+
+        // Only the discriminator is trusted at this point; each branch checks the rest
+        const props = feature.properties as FeatureProperties;
+        const id = optionalString(props.id) ?? optionalString(feature.id) ?? importedFeatureId(index);
+        const name = optionalString(props.name);
+
+        if (isMarkerFeature(props)) {
+            const pos = readPoint(feature.geometry);
+            if (!pos) {
+                result.skipped.push(`${label}: marker needs a Point geometry`);
+                return;
+            }
+
+            const [lon, lat] = pos;
+            const raw = feature.properties;
+            const category = optionalString(raw.category) ?? DEFAULT_MARKER_CATEGORY;
+
+            // Compute it when the file doesn't carry one
+            const markerMgrs = optionalString(raw.mgrs) ?? toMgrs(lat, lon);
+            if (!markerMgrs) {
+                result.skipped.push(`${label}: no MGRS at latitude ${lat} (outside 80S..84N)`);
+                return;
+            }
+
+            result.markers.push({
+                id,
+                lat,
+                lon,
+                mgrs: markerMgrs,
+                timestamp: typeof raw.timestamp === "number" ? raw.timestamp : Date.now(),
+                category,
+                label: name ?? getMarkerIcon(category).label,
+                color: sanitizeMarkerColor(optionalString(raw.color)),
+                notes: optionalString(raw.notes),
+            });
+            return;
+        }
+
+        if (isZoneFeature(props)) {
+            const ring = readPolygonRing(feature.geometry);
+            if (!ring) {
+                result.skipped.push(`${label}: zone needs a Polygon geometry`);
+                return;
+            }
+
+            if (typeof props.riskScore !== "number" || !Number.isFinite(props.riskScore)) {
+                result.skipped.push(`${label}: zone riskScore must be a number`);
+                return;
+            }
+
+            result.zones.push({
+                id,
+                name: name ?? "Imported zone",
+                coordinates: ring,
+                riskScore: props.riskScore,
+                reason: optionalString(props.reason),
+                owner: optionalString(props.owner),
+            });
+            return;
+        }
+
+        if (isHeatFeature(props)) {
+            const pos = readPoint(feature.geometry);
+            if (!pos) {
+                result.skipped.push(`${label}: heat point needs a Point geometry`);
+                return;
+            }
+
+            const weight = typeof props.weight === "number" ? props.weight : NaN;
+            if (!Number.isFinite(weight) || weight < 0) {
+                result.skipped.push(`${label}: heat weight must be a non-negative number`);
+                return;
+            }
+
+            result.heatPoints.push({
+                id,
+                lon: pos[0],
+                lat: pos[1],
+                weight,
+                name: name ?? "Incident",
+                timestamp:
+                    typeof feature.properties.timestamp === "number"
+                        ? feature.properties.timestamp
+                        : undefined,
+            });
+            return;
+        }
+
+        result.skipped.push(`${label}: unknown type "${String((props as { type?: unknown }).type)}"`);
+    });
+
+    return result;
+}
@@ -0,0 +1,98 @@
+import type { MapEvent } from "./types";
+import type { MarkerData, ZoneData, HeatPointData } from "./MapDataContext";
+
+/* ============================================================
+   Typed map event bus
+   ============================================================
+   OpenLayersTest publishes every MapEvent here (after the store
+   mutation it describes), and anything under MapDataProvider can
+   subscribe to just the types it cares about.
+*/
+
+export type MapEventType = MapEvent["type"];
+
+export type MapEventOf<T extends MapEventType> = Extract<MapEvent, { type: T }>;
+
+/**
+ * The store record(s) an event is about, for subscribers that ask for it.
+ */
+export type MapEventPayloads = {
+    markerAdded: MarkerData;
+    markerRemoved: MarkerData; // as it was just before removal
+    markerMoved: MarkerData;
+    markerUpdated: MarkerData;
+    clusterClicked: MarkerData[];
+    zoneClicked: ZoneData;
+    zoneCreated: ZoneData;
+    zoneModified: ZoneData;
+    geofenceAlert: { marker: MarkerData; zone: ZoneData };
+    featureClicked: MarkerData | ZoneData | HeatPointData;
+};
+
+export type MapEventPayload<T extends MapEventType> = T extends keyof MapEventPayloads
+    ? MapEventPayloads[T]
+    : undefined;
+
+/**
+ * What a handler receives. `payload` is only filled in for subscriptions
+ * made with `{ payload: true }` (and is undefined if the record is gone).
+ * Distributes over T, so switching on `event.type` narrows the payload too.
+ */
+export type MapBusEvent<T extends MapEventType = MapEventType> = T extends MapEventType
+    ? MapEventOf<T> & { payload?: MapEventPayload<T> }
+    : never;
+
+export type MapEventHandler<T extends MapEventType> = (event: MapBusEvent<T>) => void;
+
+export type SubscribeOptions = {
+    payload?: boolean; // resolve the store record(s) before calling the handler
+};
+
+type Subscription = {
+    handler: (event: MapBusEvent) => void;
+    payload: boolean;
+};
+
+/**
+ * Plain listener registry. The store looks payloads up and passes them to
+ * publish; only subscribers that asked for them get them.
+ */
+export function createMapEventBus() {
+    const subscriptions: Record<string, Set<Subscription>> = {};
+
+    function subscribe<T extends MapEventType>(
+        type: T | "*",
+        handler: MapEventHandler<T>,
+        options?: SubscribeOptions
+    ): () => void {
+        const subscription: Subscription = {
+            handler: handler as (event: MapBusEvent) => void,
+            payload: options?.payload ?? false,
+        };
+
+        (subscriptions[type] ??= new Set()).add(subscription);
+        return () => {
+            subscriptions[type]?.delete(subscription);
+        };
+    }
+
+    function publish(event: MapEvent, payload?: MapBusEvent["payload"]): void {
+        // Copy so handlers can unsubscribe while we're iterating
+        const targets = [...(subscriptions[event.type] ?? []), ...(subscriptions["*"] ?? [])];
+
+        targets.forEach((subscription) => {
+            const busEvent = (subscription.payload ? { ...event, payload } : event) as MapBusEvent;
+
+            try {
+                subscription.handler(busEvent);
+            } catch (error) {
+                // One bad subscriber shouldn't stop the rest
+                console.error(`Map event handler for "${event.type}" failed`, error);
+            }
+        });
+    }
+
+    return { subscribe, publish };
+}
+
+export type MapEventBus = ReturnType<typeof createMapEventBus>;
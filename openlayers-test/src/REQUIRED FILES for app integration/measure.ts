@@ -0,0 +1,62 @@
+import { getArea, getLength } from "ol/sphere.js";
+import type Geometry from "ol/geom/Geometry.js";
+
+import type { MeasureMode } from "./types";
+
+/* ============================================================
+   Measurement helpers
+   ============================================================
+   Geodesic length/area via ol/sphere (works on the map's
+   EPSG:3857 geometries directly) and the label text the
+   measure tool shows.
+*/
+
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_NAUTICAL_MILE = 1852;
+const SQUARE_METERS_PER_ACRE = 4046.8564224;
+
+export const MEASURE_MODE_LABELS: Record<MeasureMode, string> = {
+    distance: "Distance",
+    area: "Area",
+};
+
+function formatNumber(value: number, maximumFractionDigits: number): string {
+    return value.toLocaleString(undefined, { maximumFractionDigits });
+}
+
+/**
+ * "850 m · 0.53 mi · 0.46 nm" / "12.4 km · 7.71 mi · 6.7 nm"
+ */
+export function formatDistance(meters: number): string {
+    const metric = meters < 1000 ? `${formatNumber(meters, 0)} m` : `${formatNumber(meters / 1000, 2)} km`;
+    const miles = formatNumber(meters / METERS_PER_MILE, 2);
+    const nauticalMiles = formatNumber(meters / METERS_PER_NAUTICAL_MILE, 2);
+
+    return `${metric} · ${miles} mi · ${nauticalMiles} nm`;
+}
+
+/**
+ * "5,300 m² · 1.31 acres" / "3.2 km² · 790.74 acres"
+ */
+export function formatArea(squareMeters: number): string {
+    const metric =
+        squareMeters < 1_000_000
+            ? `${formatNumber(squareMeters, 0)} m²`
+            : `${formatNumber(squareMeters / 1_000_000, 2)} km²`;
+    const acres = formatNumber(squareMeters / SQUARE_METERS_PER_ACRE, 2);
+
+    return `${metric} · ${acres} acres`;
+}
+
+/**
+ * Label for a measured geometry in the given mode, or undefined for
+ * geometries that mode doesn't measure (e.g. the polygon sketch's helper line).
+ */
+export function measureLabel(geometry: Geometry, mode: MeasureMode): string | undefined {
+    const type = geometry.getType();
+
+    if (mode === "distance" && type === "LineString") return formatDistance(getLength(geometry));
+    if (mode === "area" && type === "Polygon") return formatArea(getArea(geometry));
+
+    return undefined;
+}
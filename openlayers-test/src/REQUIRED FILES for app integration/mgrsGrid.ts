@@ -0,0 +1,343 @@
+import type { LonLat } from "./types";
+import { toMgrs } from "./coordinateFormat";
+import { latLonToUtm, utmToLatLon } from "./utm";
+
+/* ============================================================
+   MGRS grid overlay
+   ============================================================
+   Lines and labels for whatever part of the world is on screen.
+   Grid zone (GZD) boundaries are always drawn; 100 km, 10 km and
+   1 km lines come in as the zoom gets close enough for them to be
+   readable. Everything is plain lon/lat so OpenLayersTest only has
+   to project and style it.
+*/
+
+export type MgrsGridLevel = "gzd" | "100km" | "10km" | "1km";
+
+export type MgrsGridLine = {
+    level: MgrsGridLevel;
+    coordinates: LonLat[];
+};
+
+export type MgrsGridLabel = {
+    level: MgrsGridLevel;
+    position: LonLat;
+    text: string;
+};
+
+export type MgrsGrid = {
+    lines: MgrsGridLine[];
+    labels: MgrsGridLabel[];
+};
+
+// [west, south, east, north] in degrees
+export type LonLatExtent = [number, number, number, number];
+
+/**
+ * UTM line spacings and the first map zoom each one shows at
+ * (roughly where a square is 60+ px across at mid latitudes).
+ */
+export const MGRS_GRID_STEPS: Array<{ level: Exclude<MgrsGridLevel, "gzd">; meters: number; minZoom: number }> = [
+    { level: "100km", meters: 100000, minZoom: 7 },
+    { level: "10km", meters: 10000, minZoom: 10 },
+    { level: "1km", meters: 1000, minZoom: 13 },
+];
+
+// Zone labels get in the way once the finer digits are showing
+const GZD_LABEL_MAX_ZOOM = 10;
+
+// Points per UTM line inside one GZD (they curve a little in lon/lat)
+const LINE_SAMPLES = 16;
+
+// A level that would draw more lines than this per direction in one GZD is
+// skipped (very wide screens, or a zone edge at a strange angle)
+const MAX_LINES_PER_ZONE = 150;
+
+// MGRS only covers 80S..84N
+const MIN_LAT = -80;
+const MAX_LAT = 84;
+const BAND_LETTERS = "CDEFGHJKLMNPQRSTUVWX";
+
+type GridZone = {
+    zone: number;
+    band: string;
+    extent: LonLatExtent;
+};
+
+/**
+ * Zone longitude ranges for a band, with the Norway (32V) and
+ * Svalbard (31X-37X) exceptions.
+ */
+function zoneRanges(band: string): Array<{ zone: number; west: number; east: number }> {
+    const ranges: Array<{ zone: number; west: number; east: number }> = [];
+
+    for (let zone = 1; zone <= 60; zone++) {
+        let west = -180 + (zone - 1) * 6;
+        let east = west + 6;
+
+        if (band === "V" && zone === 31) east = 3;
+        if (band === "V" && zone === 32) west = 3;
+
+        if (band === "X") {
+            if (zone === 32 || zone === 34 || zone === 36) continue;
+            if (zone === 31) east = 9;
+            if (zone === 33) [west, east] = [9, 21];
+            if (zone === 35) [west, east] = [21, 33];
+            if (zone === 37) west = 33;
+        }
+
+        ranges.push({ zone, west, east });
+    }
+
+    return ranges;
+}
+
+function intersect(a: LonLatExtent, b: LonLatExtent): LonLatExtent | null {
+    const west = Math.max(a[0], b[0]);
+    const south = Math.max(a[1], b[1]);
+    const east = Math.min(a[2], b[2]);
+    const north = Math.min(a[3], b[3]);
+    return west < east && south < north ? [west, south, east, north] : null;
+}
+
+function inside([lon, lat]: LonLat, box: LonLatExtent): boolean {
+    return lon > box[0] && lon < box[2] && lat > box[1] && lat < box[3];
+}
+
+function gridZonesIn(view: LonLatExtent): GridZone[] {
+    const zones: GridZone[] = [];
+
+    BAND_LETTERS.split("").forEach((band, index) => {
+        const south = MIN_LAT + index * 8;
+        const north = band === "X" ? MAX_LAT : south + 8;
+        if (north <= view[1] || south >= view[3]) return;
+
+        zoneRanges(band).forEach(({ zone, west, east }) => {
+            if (east <= view[0] || west >= view[2]) return;
+            zones.push({ zone, band, extent: [west, south, east, north] });
+        });
+    });
+
+    return zones;
+}
+
+/**
+ * Liang-Barsky clip of a polyline to a lon/lat box. A line that leaves
+ * and comes back in is split into separate pieces.
+ */
+export function clipLine(points: LonLat[], box: LonLatExtent): LonLat[][] {
+    const pieces: LonLat[][] = [];
+    let current: LonLat[] = [];
+
+    for (let i = 1; i < points.length; i++) {
+        const [x0, y0] = points[i - 1];
+        const [x1, y1] = points[i];
+        const dx = x1 - x0;
+        const dy = y1 - y0;
+
+        let t0 = 0;
+        let t1 = 1;
+        const edges: Array<[number, number]> = [
+            [-dx, x0 - box[0]],
+            [dx, box[2] - x0],
+            [-dy, y0 - box[1]],
+            [dy, box[3] - y0],
+        ];
+
+        let visible = true;
+        for (const [p, q] of edges) {
+            if (p === 0) {
+                if (q < 0) visible = false;
+                continue;
+            }
+            const t = q / p;
+            if (p < 0) t0 = Math.max(t0, t);
+            else t1 = Math.min(t1, t);
+        }
+
+        if (!visible || t0 > t1) {
+            if (current.length > 1) pieces.push(current);
+            current = [];
+            continue;
+        }
+
+        const start: LonLat = [x0 + t0 * dx, y0 + t0 * dy];
+        const end: LonLat = [x0 + t1 * dx, y0 + t1 * dy];
+
+        if (current.length === 0 || t0 > 0) {
+            if (current.length > 1) pieces.push(current);
+            current = [start];
+        }
+        current.push(end);
+
+        // Left the box partway along this segment
+        if (t1 < 1) {
+            pieces.push(current);
+            current = [];
+        }
+    }
+
+    if (current.length > 1) pieces.push(current);
+    return pieces;
+}
+
+/**
+ * GZD edges: each zone draws its west and south side, plus the outer
+ * north (84N) and east (180) edges, so shared edges aren't drawn twice.
+ */
+function gzdLines(zone: GridZone, view: LonLatExtent): MgrsGridLine[] {
+    const [west, south, east, north] = zone.extent;
+    const edges: LonLat[][] = [
+        [[west, south], [west, north]],
+        [[west, south], [east, south]],
+    ];
+    if (zone.band === "X") edges.push([[west, north], [east, north]]);
+    if (east === 180) edges.push([[east, south], [east, north]]);
+
+    return edges.flatMap((edge) =>
+        clipLine(edge, view).map((coordinates) => ({ level: "gzd" as const, coordinates }))
+    );
+}
+
+/**
+ * Easting/northing range of the visible part of a GZD, in its own zone.
+ * Edges are sampled because zone corners aren't the UTM extremes.
+ */
+function utmBounds(zone: number, box: LonLatExtent) {
+    let minE = Infinity;
+    let maxE = -Infinity;
+    let minN = Infinity;
+    let maxN = -Infinity;
+
+    for (let i = 0; i <= 4; i++) {
+        const lon = box[0] + ((box[2] - box[0]) * i) / 4;
+        for (let j = 0; j <= 4; j++) {
+            const lat = box[1] + ((box[3] - box[1]) * j) / 4;
+            const { easting, northing } = latLonToUtm(lat, lon, zone);
+            minE = Math.min(minE, easting);
+            maxE = Math.max(maxE, easting);
+            minN = Math.min(minN, northing);
+            maxN = Math.max(maxN, northing);
+        }
+    }
+
+    return { minE, maxE, minN, maxN };
+}
+
+function multiplesBetween(min: number, max: number, step: number): number[] {
+    const values: number[] = [];
+    for (let v = Math.ceil(min / step) * step; v <= max; v += step) values.push(v);
+    return values;
+}
+
+// Kilometres into the 100 km square, the two digits MGRS readers look for
+function kmLabel(meters: number): string {
+    return String(Math.round((meters % 100000) / 1000)).padStart(2, "0");
+}
+
+/**
+ * UTM lines of one spacing inside the visible part of a GZD. Lines that
+ * also belong to a coarser level are left to that level.
+ */
+function utmLines(
+    zone: GridZone,
+    visible: LonLatExtent,
+    step: (typeof MGRS_GRID_STEPS)[number],
+    coarser?: number
+): MgrsGrid {
+    const lines: MgrsGridLine[] = [];
+    const labels: MgrsGridLabel[] = [];
+
+    const hemisphere = zone.extent[1] >= 0 ? "N" : "S";
+    const { minE, maxE, minN, maxN } = utmBounds(zone.zone, visible);
+
+    const eastings = multiplesBetween(minE, maxE, step.meters);
+    const northings = multiplesBetween(minN, maxN, step.meters);
+    if (eastings.length > MAX_LINES_PER_ZONE || northings.length > MAX_LINES_PER_ZONE) return { lines, labels };
+
+    const toLonLat = (easting: number, northing: number): LonLat => {
+        const [lat, lon] = utmToLatLon({ zone: zone.zone, hemisphere, easting, northing });
+        return [lon, lat];
+    };
+
+    const sample = (from: number, to: number) =>
+        Array.from({ length: LINE_SAMPLES + 1 }, (_, i) => from + ((to - from) * i) / LINE_SAMPLES);
+
+    const addLine = (points: LonLat[], text: string) => {
+        clipLine(points, visible).forEach((coordinates, index) => {
+            lines.push({ level: step.level, coordinates });
+
+            // 100 km squares are labelled by their letters instead
+            if (step.level !== "100km" && index === 0) {
+                labels.push({ level: step.level, position: coordinates[0], text });
+            }
+        });
+    };
+
+    // Easting lines run south to north, labelled at their southern end
+    eastings
+        .filter((e) => !coarser || e % coarser !== 0)
+        .forEach((e) => addLine(sample(minN, maxN).map((n) => toLonLat(e, n)), kmLabel(e)));
+
+    // Northing lines run west to east, labelled at their western end
+    northings
+        .filter((n) => !coarser || n % coarser !== 0)
+        .forEach((n) => addLine(sample(minE, maxE).map((e) => toLonLat(e, n)), kmLabel(n)));
+
+    // Square letters (e.g. "GC") in the middle of each visible 100 km square
+    if (step.level === "100km") {
+        const squareEastings = multiplesBetween(minE - step.meters, maxE, step.meters);
+        const squareNorthings = multiplesBetween(minN - step.meters, maxN, step.meters);
+
+        squareEastings.forEach((e) => {
+            squareNorthings.forEach((n) => {
+                const centerE = (Math.max(e, minE) + Math.min(e + step.meters, maxE)) / 2;
+                const centerN = (Math.max(n, minN) + Math.min(n + step.meters, maxN)) / 2;
+                const position = toLonLat(centerE, centerN);
+
+                if (!inside(position, visible)) return;
+
+                const mgrs = toMgrs(position[1], position[0], 1);
+                if (mgrs) labels.push({ level: "100km", position, text: mgrs.slice(-4, -2) });
+            });
+        });
+    }
+
+    return { lines, labels };
+}
+
+/**
+ * Grid for the visible lon/lat extent at a map zoom. The view is clamped
+ * to the MGRS latitudes and one copy of the world (no antimeridian wrap).
+ */
+export function buildMgrsGrid(view: LonLatExtent, zoom: number): MgrsGrid {
+    const clamped = intersect(view, [-180, MIN_LAT, 180, MAX_LAT]);
+    if (!clamped) return { lines: [], labels: [] };
+
+    const lines: MgrsGridLine[] = [];
+    const labels: MgrsGridLabel[] = [];
+    const steps = MGRS_GRID_STEPS.filter((step) => zoom >= step.minZoom);
+
+    gridZonesIn(clamped).forEach((zone) => {
+        const visible = intersect(zone.extent, clamped);
+        if (!visible) return;
+
+        lines.push(...gzdLines(zone, clamped));
+
+        if (zoom < GZD_LABEL_MAX_ZOOM) {
+            labels.push({
+                level: "gzd",
+                position: [(visible[0] + visible[2]) / 2, (visible[1] + visible[3]) / 2],
+                text: `${zone.zone}${zone.band}`,
+            });
+        }
+
+        steps.forEach((step, index) => {
+            const grid = utmLines(zone, visible, step, steps[index - 1]?.meters);
+            lines.push(...grid.lines);
+            labels.push(...grid.labels);
+        });
+    });
+
+    return { lines, labels };
+}
@@ -0,0 +1,44 @@
+import { useMapData } from "./MapDataContext";
+import { createMapCommands } from "./mapCommands";
+import type { MapCommandDeps } from "./mapCommands";
+
+/* ============================================================
+   useMapCommands
+   ============================================================
+   The store half of MapCommandDeps comes from MapDataContext;
+   callers only supply what depends on their own view state
+   (camera, layer toggles, map info). One place to wire a new
+   store query into the chatbot / query bar commands.
+*/
+
+export type MapViewCommandDeps = Pick<
+    MapCommandDeps,
+    "clearMarkers" | "goTo" | "fitBounds" | "setLayerVisible" | "getLayerVisibility" | "getMapInfo"
+> & {
+    // Defaults to the store's publishMapEvent
+    emit?: MapCommandDeps["emit"];
+};
+
+/**
+ * Command set for the current render. Cheap to build, so it isn't
+ * memoized; closures over view state are fresh every time.
+ */
+export function useMapCommands(view: MapViewCommandDeps) {
+    const mapData = useMapData();
+
+    return createMapCommands({
+        addMarker: mapData.addMarker,
+        removeMarker: mapData.removeMarker,
+        addZone: mapData.addZone,
+        getMarker: mapData.getMarker,
+        getZone: mapData.getZone,
+        getAllMarkers: mapData.getAllMarkers,
+        getAllZones: mapData.getAllZones,
+        getAllHeatPoints: mapData.getAllHeatPoints,
+        getMarkersInZone: mapData.getMarkersInZone,
+        getZonesContaining: mapData.getZonesContaining,
+        getHeatWeightInZone: mapData.getHeatWeightInZone,
+        ...view,
+        emit: view.emit ?? mapData.publishMapEvent,
+    });
+}
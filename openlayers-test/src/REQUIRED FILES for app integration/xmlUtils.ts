@@ -0,0 +1,50 @@
+/* ============================================================
+   Tiny XML helpers shared by the KML and GPX converters
+   ============================================================ */
+
+/**
+ * Escape text for use inside XML elements/attributes.
+ * Names and notes come from users, so never skip this.
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * Parse an XML string and make sure the root element is what we expect.
+ * DOMParser doesn't throw on bad input, it hands back a <parsererror>
+ * document instead, so we check for that and turn it into a real error.
+ */
+export function parseXml(text: string, expectedRoot: string, formatName: string): Document {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+
+    const parserError = doc.getElementsByTagName("parsererror")[0];
+    if (parserError) {
+        const detail = parserError.textContent?.trim().split("\n")[0];
+        throw new Error(`${formatName} file is not valid XML${detail ? ` (${detail})` : ""}`);
+    }
+
+    const root = doc.documentElement;
+    if (!root || root.localName !== expectedRoot) {
+        throw new Error(
+            `Not a ${formatName} file: expected <${expectedRoot}> root, found <${root?.localName ?? "nothing"}>`
+        );
+    }
+
+    return doc;
+}
+
+/**
+ * Text of the first direct-or-nested child with this local name.
+ * Namespace-agnostic because KML/GPX files in the wild use every variant.
+ */
+export function childText(parent: Element, localName: string): string | undefined {
+    const el = parent.getElementsByTagNameNS("*", localName)[0];
+    const text = el?.textContent?.trim();
+    return text ? text : undefined;
+}
@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+
+/* ============================================================
+   Types
+   ============================================================ */
+
+/**
+ * What the analyst fills in after sketching a polygon.
+ * Geometry is not part of this; OpenLayersTest already has it.
+ */
+export type ZoneFormValues = {
+    name: string;
+    riskScore: number;
+    reason?: string;
+    owner?: string;
+};
+
+type ZoneFormProps = {
+    onSave: (values: ZoneFormValues) => void;
+    onCancel: () => void;
+};
+
+/* ============================================================
+   Styles
+   ============================================================ */
+
+// Matches the popup "card" look so it doesn't feel bolted on.
+const FORM_STYLE: React.CSSProperties = {
+    position: "absolute",
+    top: 70,
+    right: 12,
+    zIndex: 2600,
+    width: 260,
+    background: "rgba(30,30,30,0.95)",
+    color: "#fff",
+    border: "1px solid rgba(255,255,255,0.12)",
+    borderRadius: 10,
+    padding: "10px 12px",
+    fontFamily: "system-ui, sans-serif",
+    fontSize: 13,
+    boxShadow: "0 8px 24px rgba(0,0,0,0.4)",
+};
+
+const FIELD_STYLE: React.CSSProperties = {
+    display: "flex",
+    flexDirection: "column",
+    gap: 4,
+    marginBottom: 8,
+};
+
+const INPUT_STYLE: React.CSSProperties = {
+    height: 26,
+    borderRadius: 6,
+    border: "1px solid rgba(255,255,255,0.25)",
+    padding: "0 8px",
+    background: "rgba(255,255,255,0.08)",
+    color: "#fff",
+    fontSize: 13,
+};
+
+const BUTTON_STYLE: React.CSSProperties = {
+    flex: 1,
+    background: "#e9e9e9",
+    color: "#111",
+    border: "1px solid rgba(0,0,0,0.20)",
+    borderRadius: 8,
+    padding: "6px 10px",
+    fontWeight: 700,
+    cursor: "pointer",
+};
+
+/* ============================================================
+   Component
+   ============================================================ */
+
+/**
+ * Zone details form shown after a polygon is drawn.
+ * Risk score is clamped to 0-100 because RISK_COLORS buckets assume that range.
+ */
+export default function ZoneForm({ onSave, onCancel }: ZoneFormProps) {
+    const [name, setName] = useState("");
+    const [riskScore, setRiskScore] = useState("50");
+    const [reason, setReason] = useState("");
+    const [owner, setOwner] = useState("");
+
+    const score = Number(riskScore);
+    const scoreValid = riskScore.trim() !== "" && Number.isFinite(score) && score >= 0 && score <= 100;
+    const canSave = name.trim() !== "" && scoreValid;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSave) return;
+
+        onSave({
+            name: name.trim(),
+            riskScore: score,
+            // Empty strings become undefined so popups skip the row
+            reason: reason.trim() || undefined,
+            owner: owner.trim() || undefined,
+        });
+    };
+
+    return (
+        <form
+            style={FORM_STYLE}
+            onSubmit={handleSubmit}
+            onMouseDown={(e) => e.stopPropagation()} // keep the map from panning
+        >
+            <div style={{ fontWeight: 800, marginBottom: 8 }}>New zone</div>
+
+            <label style={FIELD_STYLE}>
+                Name
+                <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    style={INPUT_STYLE}
+                    autoFocus
+                    aria-label="Zone name"
+                />
+            </label>
+
+            <label style={FIELD_STYLE}>
+                Risk score (0-100)
+                <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={riskScore}
+                    onChange={(e) => setRiskScore(e.target.value)}
+                    style={INPUT_STYLE}
+                    aria-label="Zone risk score"
+                />
+            </label>
+
+            <label style={FIELD_STYLE}>
+                Reason
+                <input
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    style={INPUT_STYLE}
+                    aria-label="Zone reason"
+                />
+            </label>
+
+            <label style={FIELD_STYLE}>
+                Owner
+                <input
+                    value={owner}
+                    onChange={(e) => setOwner(e.target.value)}
+                    style={INPUT_STYLE}
+                    aria-label="Zone owner"
+                />
+            </label>
+
+            <div style={{ display: "flex", gap: 8, marginTop: 4 }}>
+                <button
+                    type="submit"
+                    disabled={!canSave}
+                    style={{ ...BUTTON_STYLE, opacity: canSave ? 1 : 0.6, cursor: canSave ? "pointer" : "not-allowed" }}
+                >
+                    Save zone
+                </button>
+                <button type="button" onClick={onCancel} style={BUTTON_STYLE}>
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,210 @@
+import type { LatLon } from "./types";
+import type { MapCommandArgs, MapCommandName, MapLayerName } from "./mapCommands";
+import { parseCoordinate } from "./coordinateParser";
+
+/* ============================================================
+   Query bar command parser
+   ============================================================
+   Deterministic, no LLM: a handful of phrase patterns mapped
+   onto the same commands MapViewRef.runCommand takes. Anything
+   that doesn't match comes back as an error with examples.
+*/
+
+export type ParsedMapCommand = {
+    [K in MapCommandName]: { name: K; args: MapCommandArgs[K] };
+}[MapCommandName];
+
+export type CommandParseResult =
+    | { ok: true; command: ParsedMapCommand; description: string }
+    | { ok: false; message: string };
+
+/**
+ * Map state some phrases are relative to ("zoom in", "toggle zones").
+ */
+export type CommandParseContext = {
+    zoom: number;
+    center: LatLon;
+    layers: Record<MapLayerName, boolean>;
+};
+
+export const COMMAND_EXAMPLES = [
+    "go to 33.75, -84.39",
+    "zoom to 14",
+    "hide heatmap",
+    "drop marker at 16SEG1234567890",
+    "clear markers",
+];
+
+const MAX_ZOOM = 22;
+
+// What people call each layer
+const LAYER_ALIASES: Record<string, MapLayerName> = {
+    zone: "zones",
+    zones: "zones",
+    marker: "markers",
+    markers: "markers",
+    pin: "markers",
+    pins: "markers",
+    heat: "heatIncidents",
+    heatmap: "heatIncidents",
+    "heat map": "heatIncidents",
+    incidents: "heatIncidents",
+    "heat incidents": "heatIncidents",
+    grid: "mgrsGrid",
+    "mgrs grid": "mgrsGrid",
+    mgrs: "mgrsGrid",
+};
+
+const LAYER_LABELS: Record<MapLayerName, string> = {
+    zones: "zones",
+    markers: "markers",
+    heatIncidents: "heatmap",
+    mgrsGrid: "MGRS grid",
+};
+
+/* ============================================================
+   Helpers
+   ============================================================ */
+
+/**
+ * Any format coordinateParser understands (decimal, DMS, DDM, MGRS, UTM).
+ */
+function parseLocation(text: string): LatLon {
+    return parseCoordinate(text).latLon;
+}
+
+function formatLatLon([lat, lon]: LatLon): string {
+    return `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
+}
+
+function clampZoom(zoom: number): number {
+    return Math.min(MAX_ZOOM, Math.max(0, zoom));
+}
+
+/* ============================================================
+   Parser
+   ============================================================ */
+
+type Pattern = {
+    match: RegExp;
+    build: (groups: string[], context: CommandParseContext) => Extract<CommandParseResult, { ok: true }>;
+};
+
+const PATTERNS: Pattern[] = [
+    {
+        // "go to 33.75, -84.39", "fly to 16SEG1234567890 zoom 12", "center on ..."
+        match: /^(?:go|fly|pan|move)\s+to\s+(.+?)(?:\s+(?:at\s+)?zoom\s+(\d+(?:\.\d+)?))?$|^center\s+(?:on|at)\s+(.+)$/i,
+        build: ([target, zoomText, centerTarget]) => {
+            const [lat, lon] = parseLocation(target ?? centerTarget);
+            const zoom = zoomText ? clampZoom(Number(zoomText)) : 15;
+            return {
+                ok: true,
+                command: { name: "goToLocation", args: { lat, lon, zoom } },
+                description: `Going to ${formatLatLon([lat, lon])}`,
+            };
+        },
+    },
+    {
+        // "zoom to 14", "zoom 14", "zoom to level 14", "set zoom to 14"
+        match: /^(?:set\s+)?zoom\s+(?:to\s+)?(?:level\s+)?(\d+(?:\.\d+)?)$/i,
+        build: ([zoomText], { center }) => {
+            const zoom = clampZoom(Number(zoomText));
+            return {
+                ok: true,
+                command: { name: "goToLocation", args: { lat: center[0], lon: center[1], zoom } },
+                description: `Zoom ${zoom}`,
+            };
+        },
+    },
+    {
+        // "zoom in", "zoom out"
+        match: /^zoom\s+(in|out)$/i,
+        build: ([direction], { center, zoom }) => {
+            const next = clampZoom(Math.round(zoom) + (direction.toLowerCase() === "in" ? 1 : -1));
+            return {
+                ok: true,
+                command: { name: "goToLocation", args: { lat: center[0], lon: center[1], zoom: next } },
+                description: `Zoom ${next}`,
+            };
+        },
+    },
+    {
+        // "drop marker at ...", "add a pin at ..."
+        match: /^(?:drop|add|place|put)\s+(?:a\s+)?(?:marker|pin)\s+(?:at|on)\s+(.+)$/i,
+        build: ([target]) => {
+            const [lat, lon] = parseLocation(target);
+            return {
+                ok: true,
+                command: { name: "addMarker", args: { lat, lon } },
+                description: `Dropped marker at ${formatLatLon([lat, lon])}`,
+            };
+        },
+    },
+    {
+        // "clear markers", "remove all markers", "delete the pins"
+        match: /^(?:clear|remove|delete)\s+(?:all\s+)?(?:the\s+)?(?:markers|pins)$/i,
+        build: () => ({
+            ok: true,
+            command: { name: "clearMarkers", args: {} },
+            description: "Cleared markers",
+        }),
+    },
+    {
+        // "remove marker marker_123"
+        match: /^(?:remove|delete)\s+(?:marker|pin)\s+(\S+)$/i,
+        build: ([id]) => ({
+            ok: true,
+            command: { name: "removeMarker", args: { id } },
+            description: `Removed marker ${id}`,
+        }),
+    },
+    {
+        // "hide heatmap", "show the zones layer", "toggle markers"
+        match: /^(hide|show|toggle)\s+(?:the\s+)?(.+?)(?:\s+layer)?$/i,
+        build: ([action, name], { layers }) => {
+            const layer = LAYER_ALIASES[name.toLowerCase()];
+            if (!layer) {
+                throw new Error(`Unknown layer "${name}" (try zones, markers, heatmap or grid)`);
+            }
+
+            const verb = action.toLowerCase();
+            const visible = verb === "toggle" ? !layers[layer] : verb === "show";
+            return {
+                ok: true,
+                command: { name: "toggleLayer", args: { layer, visible } },
+                description: `${visible ? "Showing" : "Hiding"} ${LAYER_LABELS[layer]}`,
+            };
+        },
+    },
+];
+
+/**
+ * Turns a query bar phrase into a map command.
+ * Never throws; bad input comes back as `{ ok: false, message }`.
+ */
+export function parseMapCommand(input: string, context: CommandParseContext): CommandParseResult {
+    // Patterns are case-insensitive; case is kept so marker ids survive
+    const text = input
+        .trim()
+        .replace(/^please\s+/i, "")
+        .replace(/[.!?]+$/, "")
+        .replace(/\s+/g, " ");
+
+    if (!text) return { ok: false, message: "Type a command" };
+
+    for (const pattern of PATTERNS) {
+        const match = pattern.match.exec(text);
+        if (!match) continue;
+
+        try {
+            return pattern.build(match.slice(1), context);
+        } catch (error) {
+            return { ok: false, message: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    return {
+        ok: false,
+        message: `Didn't understand "${input.trim()}". Try: ${COMMAND_EXAMPLES.map((e) => `"${e}"`).join(", ")}`,
+    };
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+
+import { parseCoordinate } from "./coordinateParser";
+import { toMgrs } from "./coordinateFormat";
+import { latLonToUtm } from "./utm";
+
+// Atlanta, the default map center
+const LAT = 33.75;
+const LON = -84.39;
+
+function expectLatLon(input: string, lat: number, lon: number, digits = 5) {
+    const { latLon } = parseCoordinate(input);
+    expect(latLon[0]).toBeCloseTo(lat, digits);
+    expect(latLon[1]).toBeCloseTo(lon, digits);
+}
+
+describe("decimal degrees", () => {
+    it("reads hemisphere suffixes", () => {
+        const parsed = parseCoordinate("33.75N 84.39W");
+
+        expect(parsed.latLon).toEqual([LAT, LON]);
+        expect(parsed.format).toBe("decimal");
+        expect(parsed.ambiguous).toBe(false);
+        expect(parsed.warnings).toEqual([]);
+    });
+
+    it("reads hemisphere prefixes and lowercase", () => {
+        expectLatLon("n33.75 w84.39", LAT, LON);
+        expectLatLon("S33.9, E151.2", -33.9, 151.2);
+    });
+
+    it("uses hemisphere letters to detect lon-first input", () => {
+        const parsed = parseCoordinate("84.39W 33.75N");
+
+        expect(parsed.latLon).toEqual([LAT, LON]);
+        expect(parsed.swapped).toBe(true);
+        expect(parsed.ambiguous).toBe(false);
+    });
+
+    it("reads a comma-separated signed pair as latitude, longitude without warnings", () => {
+        const parsed = parseCoordinate("33.75, -84.39");
+
+        expect(parsed.latLon).toEqual([LAT, LON]);
+        expect(parsed.swapped).toBe(false);
+        expect(parsed.ambiguous).toBe(false);
+        expect(parsed.warnings).toEqual([]);
+    });
+
+    it("flags space-separated pairs whose order can't be decided", () => {
+        const parsed = parseCoordinate("-84.39 33.75");
+
+        expect(parsed.latLon).toEqual([-84.39, 33.75]);
+        expect(parsed.swapped).toBe(false);
+        expect(parsed.ambiguous).toBe(true);
+        expect(parsed.warnings).toHaveLength(1);
+        expect(parsed.warnings[0]).toMatch(/latitude, longitude/);
+    });
+
+    it("flags DMS without hemisphere letters", () => {
+        expect(parseCoordinate(`33°45'00", -84°23'24"`).ambiguous).toBe(true);
+    });
+
+    it("swaps when the first value can only be a longitude", () => {
+        const parsed = parseCoordinate("-122.42, 37.77");
+
+        expect(parsed.latLon).toEqual([37.77, -122.42]);
+        expect(parsed.swapped).toBe(true);
+        expect(parsed.ambiguous).toBe(false);
+        expect(parsed.warnings[0]).toMatch(/longitude, latitude/);
+    });
+
+    it("doesn't warn when the second value can only be a longitude", () => {
+        const parsed = parseCoordinate("37.77, -122.42");
+
+        expect(parsed.ambiguous).toBe(false);
+        expect(parsed.warnings).toEqual([]);
+    });
+});
+
+describe("DMS and DDM", () => {
+    it("parses DMS with symbols", () => {
+        const parsed = parseCoordinate(`33°45'00"N 84°23'24"W`);
+
+        expect(parsed.format).toBe("dms");
+        expect(parsed.latLon[0]).toBeCloseTo(LAT, 6);
+        expect(parsed.latLon[1]).toBeCloseTo(LON, 6);
+    });
+
+    it("parses DMS with typographic quotes and no symbols", () => {
+        expectLatLon("33º45′00″N 84º23′24″W", LAT, LON);
+        expectLatLon("33 45 00 N 84 23 24 W", LAT, LON);
+    });
+
+    it("parses DDM", () => {
+        const parsed = parseCoordinate("33°45.000'N 84°23.400'W");
+
+        expect(parsed.format).toBe("ddm");
+        expect(parsed.latLon[0]).toBeCloseTo(LAT, 6);
+        expect(parsed.latLon[1]).toBeCloseTo(LON, 6);
+    });
+
+    it("rejects minutes and seconds of 60 or more", () => {
+        expect(() => parseCoordinate("33°60'N 84°23'W")).toThrow("Minutes must be less than 60");
+        expect(() => parseCoordinate(`33°45'60"N 84°23'24"W`)).toThrow("Seconds must be less than 60");
+    });
+
+    it("rejects mixed formats", () => {
+        expect(() => parseCoordinate("33°45'N, 84.39W")).toThrow(
+            "Latitude and longitude are written in different formats"
+        );
+    });
+});
+
+describe("MGRS", () => {
+    const reference = toMgrs(LAT, LON) as string;
+
+    it("round-trips with the formatter", () => {
+        const parsed = parseCoordinate(reference);
+
+        expect(parsed.format).toBe("mgrs");
+        expect(parsed.mgrs).toBe(reference);
+        expectLatLon(reference, LAT, LON, 4);
+    });
+
+    it("accepts spaces and lowercase", () => {
+        const spaced = `${reference.slice(0, 3)} ${reference.slice(3, 5)} ${reference.slice(5, 10)} ${reference.slice(10)}`;
+
+        expect(parseCoordinate(spaced.toLowerCase()).mgrs).toBe(reference);
+    });
+
+    it("rejects uneven digit counts", () => {
+        expect(() => parseCoordinate("16SGC123456789")).toThrow(
+            "MGRS easting and northing need the same number of digits"
+        );
+    });
+});
+
+describe("UTM", () => {
+    const north = latLonToUtm(LAT, LON);
+    const sydney = latLonToUtm(-33.87, 151.21);
+
+    it("reads a band letter", () => {
+        const parsed = parseCoordinate(`${north.zone}S ${north.easting.toFixed(0)} ${north.northing.toFixed(0)}`);
+
+        expect(parsed.format).toBe("utm");
+        expect(parsed.latLon[0]).toBeCloseTo(LAT, 4);
+        expect(parsed.latLon[1]).toBeCloseTo(LON, 4);
+        // "S" could also mean south; the band fits, so it's read as a band
+        expect(parsed.warnings[0]).toMatch(/latitude band S/);
+    });
+
+    it("reads S as southern hemisphere when band S doesn't fit", () => {
+        const parsed = parseCoordinate(`${sydney.zone}S ${sydney.easting.toFixed(0)} ${sydney.northing.toFixed(0)}`);
+
+        expect(parsed.latLon[0]).toBeCloseTo(-33.87, 4);
+        expect(parsed.latLon[1]).toBeCloseTo(151.21, 4);
+        expect(parsed.warnings[0]).toMatch(/southern hemisphere/);
+    });
+
+    it("reads spelled-out hemispheres without warnings", () => {
+        const parsed = parseCoordinate(`${sydney.zone} south ${sydney.easting.toFixed(0)} ${sydney.northing.toFixed(0)}`);
+
+        expect(parsed.latLon[0]).toBeCloseTo(-33.87, 4);
+        expect(parsed.warnings).toEqual([]);
+    });
+
+    it("rejects a band the position isn't in", () => {
+        expect(() => parseCoordinate(`${north.zone}U ${north.easting.toFixed(0)} ${north.northing.toFixed(0)}`)).toThrow(
+            "UTM position is not inside latitude band U"
+        );
+    });
+
+    it("rejects zones outside 1-60", () => {
+        expect(() => parseCoordinate("61N 500000 3700000")).toThrow("UTM zone must be 1-60, got 61");
+    });
+});
+
+describe("range and input errors", () => {
+    it("rejects out-of-range latitude and longitude", () => {
+        expect(() => parseCoordinate("91N 10E")).toThrow("Latitude must be between -90 and 90");
+        expect(() => parseCoordinate("10N 181E")).toThrow("Longitude must be between -180 and 180");
+        expect(() => parseCoordinate("95, 100")).toThrow("Latitude must be between -90 and 90");
+    });
+
+    it("explains malformed input", () => {
+        expect(() => parseCoordinate("   ")).toThrow("Empty input");
+        expect(() => parseCoordinate("33.75; -84.39")).toThrow('Unexpected ";" in coordinates');
+        expect(() => parseCoordinate("33 45 84")).toThrow(
+            "Could not tell where latitude ends and longitude starts; separate them with a comma"
+        );
+        expect(() => parseCoordinate("33.75N 84.39N")).toThrow("Need one N/S and one E/W hemisphere letter");
+        expect(() => parseCoordinate("-33.75S 84.39E")).toThrow(
+            "Use either a minus sign or a hemisphere letter, not both"
+        );
+    });
+});
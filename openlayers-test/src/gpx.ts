@@ -0,0 +1,95 @@
+import type { MarkerData } from "./MapDataContext";
+import type { MapDataImport } from "./geojson";
+import { importedFeatureId } from "./geojson";
+import { escapeXml, parseXml, childText } from "./xmlUtils";
+import { DEFAULT_MARKER_CATEGORY, getMarkerIcon, isMarkerCategory } from "./markerIcons";
+import { toMgrs } from "./coordinateFormat";
+
+/* ============================================================
+   GPX (handheld GPS units)
+   ============================================================
+   Only waypoints (<wpt>) map onto anything we have, so GPX is
+   markers-only. MGRS goes in <desc> so it shows up on the device;
+   the marker category goes in <type>.
+*/
+
+const GPX_NS = "http://www.topografix.com/GPX/1/1";
+
+export function toGPX(markers: MarkerData[]): string {
+    const waypoints = markers.map(
+        (m) =>
+            `  <wpt lat="${m.lat}" lon="${m.lon}">\n` +
+            `    <time>${new Date(m.timestamp).toISOString()}</time>\n` +
+            `    <name>${escapeXml(m.label)}</name>\n` +
+            (m.notes ? `    <cmt>${escapeXml(m.notes)}</cmt>\n` : "") + // schema order: cmt before desc
+            `    <desc>MGRS ${escapeXml(m.mgrs)}</desc>\n` +
+            `    <type>${escapeXml(m.category)}</type>\n` +
+            `  </wpt>`
+    );
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<gpx version="1.1" creator="OpenLayersTest" xmlns="${GPX_NS}">`,
+        ...waypoints,
+        `</gpx>`,
+    ].join("\n");
+}
+
+/**
+ * Parse GPX waypoints into markers.
+ * Tracks and routes are ignored (counted in `skipped` so the user knows).
+ */
+export function fromGPX(text: string): MapDataImport {
+    const doc = parseXml(text, "gpx", "GPX");
+    const result: MapDataImport = { markers: [], zones: [], heatPoints: [], skipped: [] };
+
+    Array.from(doc.getElementsByTagNameNS("*", "wpt")).forEach((wpt, index) => {
+        const name = childText(wpt, "name");
+        const label = `Waypoint ${index + 1}${name ? ` (${name})` : ""}`;
+
+        const lat = Number(wpt.getAttribute("lat"));
+        const lon = Number(wpt.getAttribute("lon"));
+
+        if (!wpt.hasAttribute("lat") || !wpt.hasAttribute("lon") || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+            result.skipped.push(`${label}: lat/lon attributes are missing or not numbers`);
+            return;
+        }
+
+        if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+            result.skipped.push(`${label}: coordinates out of range`);
+            return;
+        }
+
+        // Waypoint names are free text on most devices, so always compute MGRS
+        const markerMgrs = toMgrs(lat, lon);
+        if (!markerMgrs) {
+            result.skipped.push(`${label}: no MGRS at latitude ${lat} (outside 80S..84N)`);
+            return;
+        }
+
+        const time = Date.parse(childText(wpt, "time") ?? "");
+
+        // Devices put all sorts of things in <type>; only keep ones we have icons for
+        const type = childText(wpt, "type");
+        const category = type && isMarkerCategory(type) ? type : DEFAULT_MARKER_CATEGORY;
+
+        result.markers.push({
+            id: importedFeatureId(index),
+            lat,
+            lon,
+            mgrs: markerMgrs,
+            timestamp: Number.isFinite(time) ? time : Date.now(),
+            category,
+            label: name ?? getMarkerIcon(category).label,
+            notes: childText(wpt, "cmt"),
+        });
+    });
+
+    const tracks = doc.getElementsByTagNameNS("*", "trk").length;
+    const routes = doc.getElementsByTagNameNS("*", "rte").length;
+
+    if (tracks) result.skipped.push(`${tracks} track(s): only waypoints are imported`);
+    if (routes) result.skipped.push(`${routes} route(s): only waypoints are imported`);
+
+    return result;
+}
@@ -0,0 +1,52 @@
+import type { InteractionMode } from "./types";
+
+/* ============================================================
+   Interaction modes
+   ============================================================
+   What a click on the map means. Exactly one mode is active;
+   the parent owns it (interactionMode prop) and OpenLayersTest
+   asks for changes through onInteractionModeChange (shortcuts).
+
+     select     click feature -> popup, click empty -> close popup
+     addMarker  same, but clicking empty map drops a marker
+     drawZone   clicks sketch a zone polygon (Draw interaction)
+     measure    clicks sketch a measurement (distance / area)
+     pan        clicks do nothing; drag to pan
+*/
+
+export type InteractionModeInfo = {
+    mode: InteractionMode;
+    label: string;
+    shortcut: string; // single key, shown in the drawer
+    hint: string; // what clicking does in this mode
+};
+
+export const INTERACTION_MODES: InteractionModeInfo[] = [
+    { mode: "select", label: "Select", shortcut: "S", hint: "Click a feature to inspect it" },
+    { mode: "addMarker", label: "Add marker", shortcut: "M", hint: "Click the map to drop a marker" },
+    { mode: "drawZone", label: "Draw zone", shortcut: "Z", hint: "Click to add corners, double-click to finish" },
+    { mode: "measure", label: "Measure", shortcut: "R", hint: "Click to measure, double-click to finish" },
+    { mode: "pan", label: "Pan", shortcut: "P", hint: "Clicks only pan the map" },
+];
+
+export function getInteractionModeInfo(mode: InteractionMode): InteractionModeInfo {
+    return INTERACTION_MODES.find((info) => info.mode === mode) ?? INTERACTION_MODES[0];
+}
+
+/**
+ * Mode for a keydown's `key`, if it's a mode shortcut. Escape always
+ * goes back to select (and so abandons any sketch in progress).
+ */
+export function interactionModeForKey(key: string): InteractionMode | undefined {
+    if (key === "Escape") return "select";
+
+    const upper = key.toUpperCase();
+    return INTERACTION_MODES.find((info) => info.shortcut === upper)?.mode;
+}
+
+/**
+ * Whether clicking a marker/zone opens its popup in this mode.
+ */
+export function modeInspectsFeatures(mode: InteractionMode): boolean {
+    return mode === "select" || mode === "addMarker";
+}
@@ -0,0 +1,181 @@
+import type { LonLat } from "./types";
+import type { MapDataSnapshot, MapDataImport } from "./geojson";
+import { importedFeatureId } from "./geojson";
+import { escapeXml, parseXml, childText } from "./xmlUtils";
+import { DEFAULT_MARKER_CATEGORY, getMarkerIcon, isMarkerCategory, sanitizeMarkerColor } from "./markerIcons";
+import { toMgrs } from "./coordinateFormat";
+
+/* ============================================================
+   KML (Google Earth)
+   ============================================================
+   Markers become Point placemarks, zones become Polygon placemarks.
+   Fields that KML has no slot for (marker category/color, zone riskScore,
+   reason, owner) ride along in <ExtendedData>. Heat points aren't exported; Google Earth has
+   no sensible way to show them.
+*/
+
+const KML_NS = "http://www.opengis.net/kml/2.2";
+
+function extendedData(fields: Record<string, string | number | undefined>): string {
+    const rows = Object.entries(fields)
+        .filter(([, value]) => value !== undefined && value !== "")
+        .map(([key, value]) => `        <Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`);
+
+    return rows.length ? `      <ExtendedData>\n${rows.join("\n")}\n      </ExtendedData>\n` : "";
+}
+
+function kmlCoordinates(coords: LonLat[]): string {
+    return coords.map(([lon, lat]) => `${lon},${lat}`).join(" ");
+}
+
+export function toKML(data: Pick<MapDataSnapshot, "markers" | "zones">): string {
+    const markerPlacemarks = data.markers.map(
+        (m) =>
+            `    <Placemark id="${escapeXml(m.id)}">\n` +
+            `      <name>${escapeXml(m.label)}</name>\n` +
+            (m.notes ? `      <description>${escapeXml(m.notes)}</description>\n` : "") +
+            extendedData({
+                type: "marker",
+                category: m.category,
+                color: m.color,
+                mgrs: m.mgrs,
+                timestamp: m.timestamp,
+            }) +
+            `      <Point><coordinates>${m.lon},${m.lat}</coordinates></Point>\n` +
+            `    </Placemark>`
+    );
+
+    const zonePlacemarks = data.zones.map(
+        (z) =>
+            `    <Placemark id="${escapeXml(z.id)}">\n` +
+            `      <name>${escapeXml(z.name)}</name>\n` +
+            extendedData({ type: "zone", riskScore: z.riskScore, reason: z.reason, owner: z.owner }) +
+            `      <Polygon><outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(
+                z.coordinates
+            )}</coordinates></LinearRing></outerBoundaryIs></Polygon>\n` +
+            `    </Placemark>`
+    );
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<kml xmlns="${KML_NS}">`,
+        `  <Document>`,
+        `    <name>Map export</name>`,
+        ...markerPlacemarks,
+        ...zonePlacemarks,
+        `  </Document>`,
+        `</kml>`,
+    ].join("\n");
+}
+
+/**
+ * "lon,lat[,alt] lon,lat[,alt] ..." -> LonLat[]. Returns null on any bad tuple.
+ */
+function parseKmlCoordinates(text: string | undefined): LonLat[] | null {
+    if (!text) return null;
+
+    const coords: LonLat[] = [];
+    for (const tuple of text.trim().split(/\s+/)) {
+        const [lon, lat] = tuple.split(",").map(Number);
+        if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null;
+        if (Math.abs(lon) > 180 || Math.abs(lat) > 90) return null;
+        coords.push([lon, lat]);
+    }
+
+    return coords;
+}
+
+function readExtendedData(placemark: Element): Record<string, string> {
+    const fields: Record<string, string> = {};
+
+    Array.from(placemark.getElementsByTagNameNS("*", "Data")).forEach((data) => {
+        const key = data.getAttribute("name");
+        const value = childText(data, "value");
+        if (key && value !== undefined) fields[key] = value;
+    });
+
+    return fields;
+}
+
+/**
+ * Parse a KML document into markers and zones.
+ * Throws on anything that isn't KML; placemarks we can't use go to `skipped`.
+ */
+export function fromKML(text: string): MapDataImport {
+    const doc = parseXml(text, "kml", "KML");
+    const result: MapDataImport = { markers: [], zones: [], heatPoints: [], skipped: [] };
+
+    Array.from(doc.getElementsByTagNameNS("*", "Placemark")).forEach((placemark, index) => {
+        const name = childText(placemark, "name");
+        const label = `Placemark ${index + 1}${name ? ` (${name})` : ""}`;
+        const id = placemark.getAttribute("id") || importedFeatureId(index);
+        const extra = readExtendedData(placemark);
+
+        const polygon = placemark.getElementsByTagNameNS("*", "Polygon")[0];
+        if (polygon) {
+            // Outer ring only; zones don't support holes
+            const outer = polygon.getElementsByTagNameNS("*", "outerBoundaryIs")[0] ?? polygon;
+            const ring = parseKmlCoordinates(childText(outer, "coordinates"));
+
+            if (!ring || ring.length < 4) {
+                result.skipped.push(`${label}: polygon coordinates are missing or invalid`);
+                return;
+            }
+
+            const riskScore = extra.riskScore !== undefined ? Number(extra.riskScore) : 0;
+            if (!Number.isFinite(riskScore)) {
+                result.skipped.push(`${label}: riskScore "${extra.riskScore}" is not a number`);
+                return;
+            }
+
+            result.zones.push({
+                id,
+                name: name ?? "Imported zone",
+                coordinates: ring,
+                riskScore,
+                reason: extra.reason,
+                owner: extra.owner,
+            });
+            return;
+        }
+
+        const point = placemark.getElementsByTagNameNS("*", "Point")[0];
+        if (point) {
+            const coords = parseKmlCoordinates(childText(point, "coordinates"));
+
+            if (!coords || coords.length !== 1) {
+                result.skipped.push(`${label}: point coordinates are missing or invalid`);
+                return;
+            }
+
+            const [lon, lat] = coords[0];
+            const timestamp = Number(extra.timestamp);
+            // Files from other tools may name categories we have no icon for
+            const category =
+                extra.category && isMarkerCategory(extra.category) ? extra.category : DEFAULT_MARKER_CATEGORY;
+
+            const markerMgrs = extra.mgrs ?? toMgrs(lat, lon);
+            if (!markerMgrs) {
+                result.skipped.push(`${label}: no MGRS at latitude ${lat} (outside 80S..84N)`);
+                return;
+            }
+
+            result.markers.push({
+                id,
+                lat,
+                lon,
+                mgrs: markerMgrs,
+                timestamp: Number.isFinite(timestamp) ? timestamp : Date.now(),
+                category,
+                label: name ?? getMarkerIcon(category).label,
+                color: sanitizeMarkerColor(extra.color),
+                notes: childText(placemark, "description"),
+            });
+            return;
+        }
+
+        result.skipped.push(`${label}: only Point and Polygon placemarks are supported`);
+    });
+
+    return result;
+}
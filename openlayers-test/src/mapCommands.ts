@@ -0,0 +1,625 @@
+import type { BoundingBox, LatLon, LonLat, MapEvent, OLInfo } from "./types";
+import type { MarkerData, MarkerDetails, ZoneData, HeatPointData, NewZoneData } from "./MapDataContext";
+import { isMarkerCategory, sanitizeMarkerColor } from "./markerIcons";
+
+/* ============================================================
+   Map command API (for the chatbot / LLM tool calls)
+   ============================================================
+   Every command takes one plain-object argument and returns a
+   MapCommandResult instead of throwing, so the assistant can
+   read the error and try again. MAP_COMMAND_SCHEMAS describes
+   the same commands as JSON Schema for tool-calling.
+*/
+
+export type MapLayerName = "zones" | "markers" | "heatIncidents" | "mgrsGrid";
+
+export type FeatureKind = "markers" | "zones" | "heatPoints";
+
+export type FeatureSnapshot = {
+    markers: MarkerData[];
+    zones: ZoneData[];
+    heatPoints: HeatPointData[];
+};
+
+export type MapCommandErrorCode =
+    | "unknown_command"
+    | "invalid_arguments"
+    | "not_found"
+    | "unavailable"; // e.g. the map hasn't reported its extent yet
+
+export type MapCommandError = {
+    code: MapCommandErrorCode;
+    message: string;
+};
+
+export type MapCommandResult<T> = { ok: true; data: T } | { ok: false; error: MapCommandError };
+
+type NoArgs = Record<string, never>;
+
+/**
+ * Argument object for each command (what the JSON schemas describe).
+ */
+export type MapCommandArgs = {
+    goToLocation: { lat: number; lon: number; zoom?: number };
+    addMarker: { lat: number; lon: number; label?: string; category?: string; notes?: string; color?: string };
+    removeMarker: { id: string };
+    createZone: {
+        name: string;
+        coordinates: LatLon[]; // [lat, lon] vertices, closed automatically
+        riskScore?: number;
+        reason?: string;
+        owner?: string;
+    };
+    fitBounds: BoundingBox & { padding?: number };
+    queryFeatures: BoundingBox & { types?: FeatureKind[] };
+    getVisibleFeatures: NoArgs;
+    getMarkersInZone: { zoneId: string };
+    getZonesContaining: { lat: number; lon: number };
+    getHeatWeightInZone: { zoneId: string };
+    clearMarkers: NoArgs;
+    toggleLayer: { layer: MapLayerName; visible: boolean };
+    getMapInfo: NoArgs;
+};
+
+/**
+ * What each command returns on success.
+ */
+export type MapCommandData = {
+    goToLocation: { lat: number; lon: number; zoom: number };
+    addMarker: { marker: MarkerData };
+    removeMarker: { marker: MarkerData }; // as it was before removal
+    createZone: { zone: ZoneData };
+    fitBounds: { bounds: BoundingBox };
+    queryFeatures: FeatureSnapshot;
+    getVisibleFeatures: FeatureSnapshot & { bounds: BoundingBox };
+    getMarkersInZone: { zone: ZoneData; markers: MarkerData[] };
+    getZonesContaining: { zones: ZoneData[] };
+    getHeatWeightInZone: { zone: ZoneData; weight: number };
+    clearMarkers: { removed: number };
+    toggleLayer: { layer: MapLayerName; visible: boolean };
+    getMapInfo: OLInfo;
+};
+
+export type MapCommandName = keyof MapCommandArgs;
+
+export type MapCommands = {
+    [K in MapCommandName]: (args: MapCommandArgs[K]) => MapCommandResult<MapCommandData[K]>;
+};
+
+/**
+ * What the commands need from the map. MapView wires these to the
+ * MapDataContext store and its own view state.
+ */
+export type MapCommandDeps = {
+    addMarker: (lat: number, lon: number, mgrsText?: string, details?: Partial<MarkerDetails>) => string;
+    removeMarker: (id: string) => void;
+    clearMarkers: () => void;
+    addZone: (zone: NewZoneData) => string;
+    getMarker: (id: string) => MarkerData | undefined;
+    getZone: (id: string) => ZoneData | undefined;
+    getAllMarkers: () => MarkerData[];
+    getAllZones: () => ZoneData[];
+    getAllHeatPoints: () => HeatPointData[];
+    getMarkersInZone: (zoneId: string) => MarkerData[];
+    getZonesContaining: (lat: number, lon: number) => ZoneData[];
+    getHeatWeightInZone: (zoneId: string) => number;
+    goTo: (lat: number, lon: number, zoom: number) => void;
+    fitBounds: (bounds: BoundingBox, padding?: number) => void;
+    setLayerVisible: (layer: MapLayerName, visible: boolean) => void;
+    getLayerVisibility: () => Record<MapLayerName, boolean>;
+    getMapInfo: () => OLInfo;
+    // Called after a command changes the store, same events the map UI emits
+    emit?: (event: MapEvent) => void;
+};
+
+/* ============================================================
+   JSON schemas
+   ============================================================ */
+
+type JsonSchema = {
+    type: "object";
+    properties: Record<string, unknown>;
+    required?: string[];
+    additionalProperties: false;
+};
+
+export type MapCommandSchema = {
+    name: MapCommandName;
+    description: string;
+    parameters: JsonSchema;
+};
+
+const LAT_SCHEMA = { type: "number", minimum: -90, maximum: 90, description: "Latitude in decimal degrees" };
+const LON_SCHEMA = { type: "number", minimum: -180, maximum: 180, description: "Longitude in decimal degrees" };
+
+const BOUNDS_PROPERTIES = {
+    south: { ...LAT_SCHEMA, description: "Southern edge latitude" },
+    west: { ...LON_SCHEMA, description: "Western edge longitude" },
+    north: { ...LAT_SCHEMA, description: "Northern edge latitude" },
+    east: { ...LON_SCHEMA, description: "Eastern edge longitude" },
+};
+
+const NO_PARAMETERS: JsonSchema = { type: "object", properties: {}, additionalProperties: false };
+
+export const MAP_COMMAND_SCHEMAS: MapCommandSchema[] = [
+    {
+        name: "goToLocation",
+        description: "Center the map on a coordinate.",
+        parameters: {
+            type: "object",
+            properties: {
+                lat: LAT_SCHEMA,
+                lon: LON_SCHEMA,
+                zoom: { type: "number", minimum: 0, maximum: 22, description: "Zoom level, default 15" },
+            },
+            required: ["lat", "lon"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "addMarker",
+        description: "Drop a marker. Returns the new marker including its id.",
+        parameters: {
+            type: "object",
+            properties: {
+                lat: LAT_SCHEMA,
+                lon: LON_SCHEMA,
+                label: { type: "string", description: "Display name" },
+                category: { type: "string", description: "Marker icon category, e.g. \"default\" or \"risk\"" },
+                notes: { type: "string" },
+                color: { type: "string", description: "CSS color overriding the category color" },
+            },
+            required: ["lat", "lon"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "removeMarker",
+        description: "Remove a marker by id.",
+        parameters: {
+            type: "object",
+            properties: { id: { type: "string" } },
+            required: ["id"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "createZone",
+        description: "Create a polygon zone from at least 3 [lat, lon] vertices.",
+        parameters: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                coordinates: {
+                    type: "array",
+                    minItems: 3,
+                    items: {
+                        type: "array",
+                        items: { type: "number" },
+                        minItems: 2,
+                        maxItems: 2,
+                        description: "[lat, lon]",
+                    },
+                },
+                riskScore: { type: "number", minimum: 0, maximum: 100, description: "Default 50" },
+                reason: { type: "string" },
+                owner: { type: "string" },
+            },
+            required: ["name", "coordinates"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "fitBounds",
+        description: "Zoom the map so a lat/lon rectangle fills the view.",
+        parameters: {
+            type: "object",
+            properties: {
+                ...BOUNDS_PROPERTIES,
+                padding: { type: "number", minimum: 0, description: "Pixels around the box, default 40" },
+            },
+            required: ["south", "west", "north", "east"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "queryFeatures",
+        description: "List markers, zones and heat points inside a lat/lon rectangle (zones match if their extent overlaps it).",
+        parameters: {
+            type: "object",
+            properties: {
+                ...BOUNDS_PROPERTIES,
+                types: {
+                    type: "array",
+                    items: { type: "string", enum: ["markers", "zones", "heatPoints"] },
+                    description: "Which feature types to return, default all",
+                },
+            },
+            required: ["south", "west", "north", "east"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "getVisibleFeatures",
+        description: "Snapshot of the features currently on screen (hidden layers are left out).",
+        parameters: NO_PARAMETERS,
+    },
+    {
+        name: "getMarkersInZone",
+        description: "List the markers inside a zone's polygon.",
+        parameters: {
+            type: "object",
+            properties: { zoneId: { type: "string" } },
+            required: ["zoneId"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "getZonesContaining",
+        description: "List the zones whose polygon contains a coordinate.",
+        parameters: {
+            type: "object",
+            properties: { lat: LAT_SCHEMA, lon: LON_SCHEMA },
+            required: ["lat", "lon"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "getHeatWeightInZone",
+        description: "Total heat point (incident) weight inside a zone's polygon. Each point weighs 0..1.",
+        parameters: {
+            type: "object",
+            properties: { zoneId: { type: "string" } },
+            required: ["zoneId"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "clearMarkers",
+        description: "Remove every marker.",
+        parameters: NO_PARAMETERS,
+    },
+    {
+        name: "toggleLayer",
+        description: "Show or hide a layer.",
+        parameters: {
+            type: "object",
+            properties: {
+                layer: { type: "string", enum: ["zones", "markers", "heatIncidents", "mgrsGrid"] },
+                visible: { type: "boolean" },
+            },
+            required: ["layer", "visible"],
+            additionalProperties: false,
+        },
+    },
+    {
+        name: "getMapInfo",
+        description: "Current zoom, center and visible bounds.",
+        parameters: NO_PARAMETERS,
+    },
+];
+
+/* ============================================================
+   Argument validation
+   ============================================================
+   Helpers throw; runCommand turns that into invalid_arguments.
+*/
+
+type Args = Record<string, unknown>;
+
+function readNumber(args: Args, key: string, min: number, max: number): number;
+function readNumber(args: Args, key: string, min: number, max: number, optional: true): number | undefined;
+function readNumber(args: Args, key: string, min: number, max: number, optional?: boolean) {
+    const value = args[key];
+    if (value === undefined && optional) return undefined;
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new Error(`"${key}" must be a number`);
+    }
+    if (value < min || value > max) {
+        throw new Error(`"${key}" must be between ${min} and ${max}`);
+    }
+    return value;
+}
+
+function readString(args: Args, key: string): string;
+function readString(args: Args, key: string, optional: true): string | undefined;
+function readString(args: Args, key: string, optional?: boolean) {
+    const value = args[key];
+    if (value === undefined && optional) return undefined;
+
+    if (typeof value !== "string" || value.trim() === "") {
+        throw new Error(`"${key}" must be a non-empty string`);
+    }
+    return value.trim();
+}
+
+function readBounds(args: Args): BoundingBox {
+    const bounds = {
+        south: readNumber(args, "south", -90, 90),
+        west: readNumber(args, "west", -180, 180),
+        north: readNumber(args, "north", -90, 90),
+        east: readNumber(args, "east", -180, 180),
+    };
+
+    if (bounds.south > bounds.north) {
+        throw new Error(`"south" must not be greater than "north"`);
+    }
+    return bounds;
+}
+
+function readLayer(args: Args): MapLayerName {
+    const layer = args.layer;
+    if (layer !== "zones" && layer !== "markers" && layer !== "heatIncidents" && layer !== "mgrsGrid") {
+        throw new Error(`"layer" must be one of zones, markers, heatIncidents, mgrsGrid`);
+    }
+    return layer;
+}
+
+function readFeatureKinds(args: Args): FeatureKind[] {
+    const value = args.types;
+    if (value === undefined) return ["markers", "zones", "heatPoints"];
+
+    if (!Array.isArray(value) || value.some((t) => t !== "markers" && t !== "zones" && t !== "heatPoints")) {
+        throw new Error(`"types" must be an array of markers, zones, heatPoints`);
+    }
+    return value as FeatureKind[];
+}
+
+function readRing(args: Args): LonLat[] {
+    const value = args.coordinates;
+    if (!Array.isArray(value)) {
+        throw new Error(`"coordinates" must be an array of [lat, lon] pairs`);
+    }
+
+    const ring = value.map((point, i): LonLat => {
+        if (!Array.isArray(point) || point.length !== 2) {
+            throw new Error(`coordinates[${i}] must be a [lat, lon] pair`);
+        }
+        const [lat, lon] = point;
+        const pair = { lat, lon };
+        return [readNumber(pair, "lon", -180, 180), readNumber(pair, "lat", -90, 90)];
+    });
+
+    // Close the ring the way OL's Draw does
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+        ring.push([first[0], first[1]]);
+    }
+
+    // 3 distinct vertices + the closing one
+    if (ring.length < 4) {
+        throw new Error(`"coordinates" needs at least 3 distinct points`);
+    }
+    return ring;
+}
+
+/* ============================================================
+   Spatial helpers
+   ============================================================ */
+
+// Handles boxes that cross the antimeridian (west > east)
+function containsLonLat(bounds: BoundingBox, lon: number, lat: number): boolean {
+    if (lat < bounds.south || lat > bounds.north) return false;
+
+    return bounds.west <= bounds.east
+        ? lon >= bounds.west && lon <= bounds.east
+        : lon >= bounds.west || lon <= bounds.east;
+}
+
+// Extent overlap, good enough for "what's around here" questions
+function zoneIntersects(bounds: BoundingBox, zone: ZoneData): boolean {
+    const lons = zone.coordinates.map(([lon]) => lon);
+    const lats = zone.coordinates.map(([, lat]) => lat);
+    const zoneWest = Math.min(...lons);
+    const zoneEast = Math.max(...lons);
+
+    if (Math.max(...lats) < bounds.south || Math.min(...lats) > bounds.north) return false;
+
+    if (bounds.west <= bounds.east) {
+        return zoneEast >= bounds.west && zoneWest <= bounds.east;
+    }
+    return zoneEast >= bounds.west || zoneWest <= bounds.east;
+}
+
+// Average of the open ring; lands inside for the convex-ish zones people draw
+function zoneCenter(ring: LonLat[]): LatLon {
+    const open = ring.slice(0, -1);
+    const lon = open.reduce((sum, [x]) => sum + x, 0) / open.length;
+    const lat = open.reduce((sum, [, y]) => sum + y, 0) / open.length;
+    return [lat, lon];
+}
+
+function featuresIn(deps: MapCommandDeps, bounds: BoundingBox, kinds: FeatureKind[]): FeatureSnapshot {
+    return {
+        markers: kinds.includes("markers")
+            ? deps.getAllMarkers().filter((m) => containsLonLat(bounds, m.lon, m.lat))
+            : [],
+        zones: kinds.includes("zones") ? deps.getAllZones().filter((z) => zoneIntersects(bounds, z)) : [],
+        heatPoints: kinds.includes("heatPoints")
+            ? deps.getAllHeatPoints().filter((p) => containsLonLat(bounds, p.lon, p.lat))
+            : [],
+    };
+}
+
+/* ============================================================
+   Commands
+   ============================================================ */
+
+function success<T>(data: T): MapCommandResult<T> {
+    return { ok: true, data };
+}
+
+function failure(code: MapCommandErrorCode, message: string): MapCommandResult<never> {
+    return { ok: false, error: { code, message } };
+}
+
+type CommandImpl = (deps: MapCommandDeps, args: Args) => MapCommandResult<unknown>;
+
+const COMMANDS: Record<MapCommandName, CommandImpl> = {
+    goToLocation(deps, args) {
+        const lat = readNumber(args, "lat", -90, 90);
+        const lon = readNumber(args, "lon", -180, 180);
+        const zoom = readNumber(args, "zoom", 0, 22, true) ?? 15;
+
+        deps.goTo(lat, lon, zoom);
+        return success({ lat, lon, zoom });
+    },
+
+    addMarker(deps, args) {
+        const lat = readNumber(args, "lat", -90, 90);
+        const lon = readNumber(args, "lon", -180, 180);
+        const category = readString(args, "category", true);
+
+        if (category !== undefined && !isMarkerCategory(category)) {
+            throw new Error(`Unknown marker category "${category}"`);
+        }
+
+        const id = deps.addMarker(lat, lon, undefined, {
+            label: readString(args, "label", true),
+            category,
+            notes: readString(args, "notes", true),
+            // Unusable colors fall back to the category color
+            color: sanitizeMarkerColor(readString(args, "color", true)),
+        });
+
+        const marker = deps.getMarker(id);
+        if (!marker) return failure("unavailable", "Marker was not stored");
+
+        deps.emit?.({ type: "markerAdded", markerId: id, coordinates: [lat, lon] });
+        return success({ marker });
+    },
+
+    removeMarker(deps, args) {
+        const id = readString(args, "id");
+        const marker = deps.getMarker(id);
+        if (!marker) return failure("not_found", `No marker with id "${id}"`);
+
+        deps.removeMarker(id);
+        deps.emit?.({ type: "markerRemoved", markerId: id, coordinates: [marker.lat, marker.lon] });
+        return success({ marker });
+    },
+
+    createZone(deps, args) {
+        const coordinates = readRing(args);
+        const id = deps.addZone({
+            name: readString(args, "name"),
+            coordinates,
+            riskScore: readNumber(args, "riskScore", 0, 100, true) ?? 50,
+            reason: readString(args, "reason", true),
+            owner: readString(args, "owner", true),
+        });
+
+        const zone = deps.getZone(id);
+        if (!zone) return failure("unavailable", "Zone was not stored");
+
+        deps.emit?.({ type: "zoneCreated", zoneId: id, coordinates: zoneCenter(coordinates) });
+        return success({ zone });
+    },
+
+    fitBounds(deps, args) {
+        const bounds = readBounds(args);
+        const padding = readNumber(args, "padding", 0, 1000, true);
+
+        deps.fitBounds(bounds, padding);
+        return success({ bounds });
+    },
+
+    queryFeatures(deps, args) {
+        return success(featuresIn(deps, readBounds(args), readFeatureKinds(args)));
+    },
+
+    getVisibleFeatures(deps) {
+        const { bounds } = deps.getMapInfo();
+        if (!bounds) return failure("unavailable", "The map has not rendered yet");
+
+        const visible = deps.getLayerVisibility();
+        const kinds: FeatureKind[] = [];
+        if (visible.markers) kinds.push("markers");
+        if (visible.zones) kinds.push("zones");
+        if (visible.heatIncidents) kinds.push("heatPoints");
+
+        return success({ bounds, ...featuresIn(deps, bounds, kinds) });
+    },
+
+    getMarkersInZone(deps, args) {
+        const zoneId = readString(args, "zoneId");
+        const zone = deps.getZone(zoneId);
+        if (!zone) return failure("not_found", `No zone with id "${zoneId}"`);
+
+        return success({ zone, markers: deps.getMarkersInZone(zoneId) });
+    },
+
+    getZonesContaining(deps, args) {
+        const lat = readNumber(args, "lat", -90, 90);
+        const lon = readNumber(args, "lon", -180, 180);
+
+        return success({ zones: deps.getZonesContaining(lat, lon) });
+    },
+
+    getHeatWeightInZone(deps, args) {
+        const zoneId = readString(args, "zoneId");
+        const zone = deps.getZone(zoneId);
+        if (!zone) return failure("not_found", `No zone with id "${zoneId}"`);
+
+        return success({ zone, weight: deps.getHeatWeightInZone(zoneId) });
+    },
+
+    clearMarkers(deps) {
+        const removed = deps.getAllMarkers().length;
+        deps.clearMarkers();
+        return success({ removed });
+    },
+
+    toggleLayer(deps, args) {
+        const layer = readLayer(args);
+        const visible = args.visible;
+        if (typeof visible !== "boolean") {
+            throw new Error(`"visible" must be a boolean`);
+        }
+
+        deps.setLayerVisible(layer, visible);
+        return success({ layer, visible });
+    },
+
+    getMapInfo(deps) {
+        return success(deps.getMapInfo());
+    },
+};
+
+function isCommandName(name: string): name is MapCommandName {
+    return Object.prototype.hasOwnProperty.call(COMMANDS, name);
+}
+
+/**
+ * Builds the command set for one map. `run` is the entry point for
+ * tool calls (name + untyped JSON args); the named methods are the
+ * same commands with typed arguments.
+ */
+export function createMapCommands(deps: MapCommandDeps): MapCommands & {
+    run: (name: string, args?: unknown) => MapCommandResult<unknown>;
+} {
+    function run(name: string, args?: unknown): MapCommandResult<unknown> {
+        if (!isCommandName(name)) {
+            return failure("unknown_command", `Unknown command "${name}"`);
+        }
+
+        const input = args ?? {};
+        if (typeof input !== "object" || Array.isArray(input)) {
+            return failure("invalid_arguments", "Arguments must be an object");
+        }
+
+        try {
+            return COMMANDS[name](deps, input as Args);
+        } catch (error) {
+            return failure("invalid_arguments", error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    const typed = Object.fromEntries(
+        (Object.keys(COMMANDS) as MapCommandName[]).map((name) => [name, (args: unknown) => run(name, args)])
+    ) as MapCommands;
+
+    return { ...typed, run };
+}
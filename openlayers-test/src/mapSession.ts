@@ -0,0 +1,131 @@
+import type { LatLon } from "./types";
+import type { MarkerData, ZoneData } from "./MapDataContext";
+import { DEFAULT_MARKER_CATEGORY } from "./markerIcons";
+
+/* ============================================================
+   Map session persistence (localStorage)
+   ============================================================ */
+
+/**
+ * Bump this whenever the stored shape changes (e.g. a new required
+ * MarkerData field) and add a matching entry to SESSION_MIGRATIONS.
+ */
+export const MAP_SESSION_VERSION = 2;
+
+/**
+ * Camera position we restore on reload.
+ */
+export type MapViewState = {
+    center: LatLon; // [lat, lon]
+    zoom: number;
+};
+
+export type PersistedMapSession = {
+    version: number;
+    savedAt: number;
+    markers: MarkerData[];
+    zones: ZoneData[];
+    view: MapViewState | null;
+    mutedZoneIds?: string[]; // geofence mutes; missing in older saves
+};
+
+/**
+ * Upgrade an older stored session to the current shape.
+ * Return null to throw the old session away.
+ */
+export type MapSessionMigration = (
+    stored: Record<string, unknown>,
+    fromVersion: number
+) => PersistedMapSession | null;
+
+/**
+ * Built-in upgrades, applied one version at a time.
+ * Key = version being upgraded *from*.
+ */
+const SESSION_MIGRATIONS: Record<number, (stored: Record<string, unknown>) => Record<string, unknown>> = {
+    // v2: markers gained category/label (color/notes are optional)
+    1: (s) => ({
+        ...s,
+        version: 2,
+        markers: (Array.isArray(s.markers) ? s.markers : []).map((m: Record<string, unknown>) => ({
+            category: DEFAULT_MARKER_CATEGORY,
+            label: "Marker",
+            ...m,
+        })),
+    }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Default migration: walk SESSION_MIGRATIONS up to the current version.
+ */
+export const defaultSessionMigration: MapSessionMigration = (stored, fromVersion) => {
+    let session = stored;
+
+    for (let v = fromVersion; v < MAP_SESSION_VERSION; v++) {
+        const step = SESSION_MIGRATIONS[v];
+        if (!step) return null; // no known path forward
+
+        session = step(session);
+    }
+
+    return session as PersistedMapSession;
+};
+
+/**
+ * Read a session from localStorage.
+ * Anything unreadable, from a newer app version, or unmigratable is ignored
+ * (we'd rather start empty than crash on load).
+ */
+export function loadMapSession(
+    storageKey: string,
+    migrate: MapSessionMigration = defaultSessionMigration
+): PersistedMapSession | null {
+    try {
+        const text = localStorage.getItem(storageKey);
+        if (!text) return null;
+
+        const stored: unknown = JSON.parse(text);
+        if (!isRecord(stored) || typeof stored.version !== "number") return null;
+
+        if (stored.version > MAP_SESSION_VERSION) {
+            console.warn(`Map session "${storageKey}" is from a newer version (${stored.version}); ignoring it`);
+            return null;
+        }
+
+        const session =
+            stored.version === MAP_SESSION_VERSION
+                ? (stored as PersistedMapSession)
+                : migrate(stored, stored.version);
+
+        if (!session || !Array.isArray(session.markers) || !Array.isArray(session.zones)) {
+            return null;
+        }
+
+        return session;
+    } catch (error) {
+        console.warn(`Could not load map session "${storageKey}"`, error);
+        return null;
+    }
+}
+
+export function saveMapSession(
+    storageKey: string,
+    data: Pick<PersistedMapSession, "markers" | "zones" | "view" | "mutedZoneIds">
+): void {
+    const session: PersistedMapSession = {
+        version: MAP_SESSION_VERSION,
+        savedAt: Date.now(),
+        ...data,
+    };
+
+    try {
+        localStorage.setItem(storageKey, JSON.stringify(session));
+    } catch (error) {
+        // Quota exceeded / private mode. Losing persistence beats breaking the map.
+        console.warn(`Could not save map session "${storageKey}"`, error);
+    }
+}
@@ -0,0 +1,91 @@
+/* ============================================================
+   Marker icon registry (one SVG pin per marker category)
+   ============================================================
+   Apps register their own categories at startup:
+
+     registerMarkerIcon("checkpoint", { label: "Checkpoint", color: "#34c759", svg: MY_SVG });
+
+   `{color}` inside the SVG is replaced with the marker's own color
+   (or the icon's default), so one SVG can serve many colors.
+*/
+
+export type MarkerIcon = {
+    label: string; // shown in the category picker; default label for new markers
+    svg: string;
+    color: string; // fill used when a marker has no color of its own
+    anchor?: [number, number]; // fraction of the icon that sits on the point (default bottom-center)
+};
+
+export const DEFAULT_MARKER_CATEGORY = "default";
+
+// Same pin shapes the first prototype used
+const PIN_SVG = `
+<svg xmlns="http://www.w3.org/2000/svg" width="36" height="36" viewBox="0 0 24 24">
+  <path fill="{color}" d="M12 2c-3.314 0-6 2.686-6 6c0 4.5 6 14 6 14s6-9.5 6-14c0-3.314-2.686-6-6-6z"/>
+  <circle cx="12" cy="8" r="2.3" fill="#ffffff"/>
+</svg>
+`;
+
+const RISK_PIN_SVG = `
+<svg xmlns="http://www.w3.org/2000/svg" width="36" height="36" viewBox="0 0 24 24">
+  <path fill="{color}" d="M12 2c-3.314 0-6 2.686-6 6c0 4.5 6 14 6 14s6-9.5 6-14c0-3.314-2.686-6-6-6z"/>
+  <path fill="#111" d="M11 6h2v6h-2z"/>
+  <path fill="#111" d="M11 13h2v2h-2z"/>
+</svg>
+`;
+
+// Insertion order = order in the category picker
+const registry = new Map<string, MarkerIcon>([
+    [DEFAULT_MARKER_CATEGORY, { label: "Marker", svg: PIN_SVG, color: "#ff3b30" }],
+    ["risk", { label: "Risk", svg: RISK_PIN_SVG, color: "#ff9500" }],
+]);
+
+/**
+ * Add (or replace) the icon for a category.
+ * Markers already on the map pick it up the next time they're redrawn.
+ */
+export function registerMarkerIcon(category: string, icon: MarkerIcon): void {
+    registry.set(category, icon);
+}
+
+export function isMarkerCategory(category: string): boolean {
+    return registry.has(category);
+}
+
+/**
+ * Icon for a category. Unknown categories (e.g. from an imported file)
+ * fall back to the default pin instead of disappearing.
+ */
+export function getMarkerIcon(category: string): MarkerIcon {
+    return registry.get(category) ?? registry.get(DEFAULT_MARKER_CATEGORY)!;
+}
+
+export function getMarkerCategories(): Array<{ category: string; label: string }> {
+    return Array.from(registry.entries()).map(([category, icon]) => ({ category, label: icon.label }));
+}
+
+// Hex, rgb()/rgba()/hsl()/hsla() or a named color. Colors end up inside an
+// SVG attribute, so anything with quotes or brackets must never match.
+const CSS_COLOR_PATTERN =
+    /^(#[0-9a-f]{3,4}|#[0-9a-f]{6}|#[0-9a-f]{8}|(rgb|hsl)a?\([\d\s.,%/+-]+\)|[a-z]+)$/i;
+
+export function isCssColor(value: string): boolean {
+    return CSS_COLOR_PATTERN.test(value.trim());
+}
+
+/**
+ * Marker color from outside input (imports, commands): the trimmed color if
+ * it's one we can draw, otherwise undefined so the icon's default is used.
+ */
+export function sanitizeMarkerColor(color: string | undefined): string | undefined {
+    return color !== undefined && isCssColor(color) ? color.trim() : undefined;
+}
+
+/**
+ * Icon SVG with `{color}` filled in. A bad color (e.g. from an old saved
+ * session) falls back to the icon's default.
+ */
+export function renderMarkerSvg(category: string, color?: string): string {
+    const icon = getMarkerIcon(category);
+    return icon.svg.split("{color}").join(sanitizeMarkerColor(color) ?? icon.color);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { buildMgrsGrid, clipLine } from "./mgrsGrid";
+import type { MgrsGrid, MgrsGridLevel } from "./mgrsGrid";
+
+// Downtown Atlanta, inside 16S GC
+const ATLANTA_VIEW: [number, number, number, number] = [-84.45, 33.72, -84.33, 33.78];
+
+function levels(grid: MgrsGrid): Set<MgrsGridLevel> {
+    return new Set(grid.lines.map((line) => line.level));
+}
+
+describe("clipLine", () => {
+    it("cuts segments at the box edges", () => {
+        expect(clipLine([[-2, 0], [2, 0]], [-1, -1, 1, 1])).toEqual([[[-1, 0], [1, 0]]]);
+    });
+
+    it("splits a line that leaves and re-enters", () => {
+        const pieces = clipLine([[-0.5, 0], [-0.5, 3], [0.5, 3], [0.5, 0]], [-1, -1, 1, 1]);
+
+        expect(pieces).toHaveLength(2);
+    });
+});
+
+describe("buildMgrsGrid", () => {
+    it("only draws zone boundaries and names when zoomed out", () => {
+        const grid = buildMgrsGrid([-90, 30, -78, 40], 5);
+
+        expect(levels(grid)).toEqual(new Set(["gzd"]));
+        expect(grid.labels.map((label) => label.text)).toEqual(expect.arrayContaining(["16S", "17S"]));
+    });
+
+    it("adds 100 km squares with their letters", () => {
+        const grid = buildMgrsGrid([-85, 33, -84, 34.5], 8);
+
+        expect(levels(grid).has("100km")).toBe(true);
+        expect(grid.labels.some((label) => label.level === "100km" && label.text === "GC")).toBe(true);
+    });
+
+    it("adds 1 km lines labelled with their kilometre digits when close in", () => {
+        const grid = buildMgrsGrid(ATLANTA_VIEW, 14);
+        const kmLabels = grid.labels.filter((label) => label.level === "1km");
+
+        expect(levels(grid).has("1km")).toBe(true);
+        expect(kmLabels.length).toBeGreaterThan(0);
+        kmLabels.forEach((label) => expect(label.text).toMatch(/^\d\d$/));
+    });
+
+    it("leaves lines a coarser level already draws to that level", () => {
+        const grid = buildMgrsGrid(ATLANTA_VIEW, 14);
+        const oneKm = grid.labels.filter((label) => label.level === "1km").map((label) => label.text);
+
+        expect(oneKm.some((text) => text.endsWith("0"))).toBe(false);
+    });
+
+    it("uses the Norway exception zone", () => {
+        const grid = buildMgrsGrid([4, 58, 6, 60], 5);
+
+        expect(grid.labels.map((label) => label.text)).toContain("32V");
+    });
+
+    it("draws nothing outside 80S..84N", () => {
+        expect(buildMgrsGrid([-10, 85, 10, 89], 5)).toEqual({ lines: [], labels: [] });
+    });
+});
@@ -0,0 +1,34 @@
+import type { LonLat } from "./types";
+import type { ZoneData } from "./MapDataContext";
+
+/* ============================================================
+   Spatial queries
+   ============================================================
+   Point-in-zone tests for "which markers are inside Zone A?".
+   Planar math on lon/lat, which is fine at the size of zones
+   people draw (no antimeridian-crossing zones).
+*/
+
+/**
+ * Even-odd ray cast. Works on open or closed rings; points exactly
+ * on an edge may land either way.
+ */
+export function ringContains(ring: LonLat[], lon: number, lat: number): boolean {
+    let inside = false;
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+
+        const crosses = yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+        if (crosses) inside = !inside;
+    }
+
+    return inside;
+}
+
+export function zoneContains(zone: ZoneData, lat: number, lon: number): boolean {
+    if (zone.coordinates.length < 3) return false;
+
+    return ringContains(zone.coordinates, lon, lat);
+}
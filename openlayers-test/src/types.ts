@@ -1,3 +1,5 @@
+import type { ReactNode } from "react";
+
 /* ============================================================
    Coordinate Types
    ============================================================ */
@@ -14,6 +16,27 @@ export type LonLat = [number, number]; // [longitude, latitude]
  */
 export type LatLon = [number, number]; // [latitude, longitude]
 
+/**
+ * What a click on the map does (see interactionModes.ts).
+ */
+export type InteractionMode = "select" | "addMarker" | "drawZone" | "measure" | "pan";
+
+/**
+ * What the measure tool measures.
+ */
+export type MeasureMode = "distance" | "area";
+
+/**
+ * Lat/lon rectangle. Named edges instead of an array so nobody has to
+ * remember which corner comes first.
+ */
+export type BoundingBox = {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+};
+
 
 
 /* ============================================================
@@ -22,12 +45,15 @@ export type LatLon = [number, number]; // [latitude, longitude]
 
 /**
  * Marker feature stored inside OpenLayers.
- * `type` is the discriminator  this enables safe type narrowing.
+ * `type` is the discriminator — this enables safe type narrowing.
  */
 export type MarkerFeature = {
     id: string;
     type: "marker";
-    name: string;
+    name: string; // the marker's label
+    category: string; // icon registry key
+    color?: string;
+    notes?: string;
     lonLat: LonLat;
     mgrs: string | null; // nullable in case it's not computed yet
 };
@@ -91,11 +117,44 @@ export type MapEvent =
         markerId: string;
         coordinates: LatLon;
     }
+    | {
+        type: "markerMoved";
+        markerId: string;
+        coordinates: LatLon; // where it was dropped
+    }
+    | {
+        type: "markerUpdated";
+        markerId: string;
+        coordinates: LatLon; // label/notes/category changed, position didn't
+        changedFields: Array<"label" | "category" | "color" | "notes">; // never empty
+    }
     | {
         type: "zoneClicked";
         zoneId: string;
         coordinates: LatLon;
     }
+    | {
+        type: "zoneCreated";
+        zoneId: string;
+        coordinates: LatLon; // a point inside the new polygon
+    }
+    | {
+        type: "zoneModified";
+        zoneId: string;
+        coordinates: LatLon; // a point inside the reshaped polygon
+    }
+    | {
+        type: "clusterClicked";
+        markerIds: string[]; // every marker in the cluster (MapDataContext ids)
+        coordinates: LatLon;
+    }
+    | {
+        type: "geofenceAlert";
+        markerId: string;
+        zoneId: string;
+        riskScore: number; // the zone's score when the marker entered
+        coordinates: LatLon; // where the marker is
+    }
     | {
         type: "featureClicked";
         featureType: "marker" | "zone" | "heat";
@@ -115,6 +174,8 @@ export type MapEvent =
 export type OLInfo = {
     zoom: number;
     centerLatLon: LatLon;
+    bounds?: BoundingBox; // what's currently on screen
+    interactionMode?: InteractionMode;
 };
 
 /**
@@ -128,6 +189,61 @@ export type GoToRequest = {
     mgrs?: string; // optional override
 };
 
+/**
+ * Request to frame an area (same "command object" idea as GoToRequest).
+ */
+export type FitBoundsRequest = {
+    bounds: BoundingBox;
+    padding?: number; // px around the box, default 40
+};
+
+
+
+/* ============================================================
+   Base Layers (tile sources)
+   ============================================================ */
+
+/**
+ * Fields every base layer has.
+ * `id` must be unique and stable (it's what the switcher selects by).
+ */
+type BaseLayerCommon = {
+    id: string;
+    label: string; // shown in the drawer's switcher
+    attribution?: string; // HTML allowed, shown in the map's attribution control
+    maxZoom?: number; // highest zoom the server actually has tiles for
+};
+
+/**
+ * Configurable tile sources for the map background.
+ *
+ * - xyz:     any {z}/{x}/{y} server (OSM, a local tile cache...)
+ * - wmts:    WMTS KVP endpoint on a Web Mercator tile matrix set
+ * - mbtiles: an .mbtiles file served by a local tile server
+ *            (mbtileserver, tileserver-gl...). Browsers can't read the file
+ *            directly. Use scheme "tms" if the server passes rows through
+ *            unflipped (MBTiles stores them TMS-style).
+ */
+export type BaseLayerConfig =
+    | (BaseLayerCommon & {
+        kind: "xyz";
+        url: string; // e.g. https://tile.openstreetmap.org/{z}/{x}/{y}.png
+    })
+    | (BaseLayerCommon & {
+        kind: "wmts";
+        url: string;
+        layer: string;
+        matrixSet: string; // e.g. "EPSG:3857" or "GoogleMapsCompatible"
+        format?: string; // default image/png
+        style?: string; // default "default"
+        matrixIdPrefix?: string; // some servers (GeoServer) want "EPSG:3857:0" instead of "0"
+    })
+    | (BaseLayerCommon & {
+        kind: "mbtiles";
+        url: string; // e.g. http://localhost:8080/tiles/{z}/{x}/{y}.png
+        scheme?: "xyz" | "tms";
+    });
+
 
 
 /* ============================================================
@@ -142,18 +258,60 @@ export type OpenLayersTestProps = {
     showZones: boolean;
     showMarkers: boolean;
     showHeatIncidents: boolean;
+    // MGRS grid lines + labels, finer as you zoom in (off unless set)
+    showMgrsGrid?: boolean;
 
     goToRequest?: GoToRequest | null;
+    fitBoundsRequest?: FitBoundsRequest | null;
 
     onInfo?: (info: OLInfo) => void;
     onLastClick?: (latLon: LatLon | null) => void;
     onMarkersCount?: (count: number) => void;
 
+    // Position under the mouse, throttled; null once the pointer leaves the map
+    onPointerMove?: (latLon: LatLon | null) => void;
+
     // Centralized event handler (cleaner than many small callbacks)
     onMapEvent?: (event: MapEvent) => void;
 
     requestClearMarkers?: number;
 
+    // What clicks do (default "addMarker"). In "drawZone" clicks sketch a
+    // polygon (double-click finishes) and the zone details form takes over.
+    interactionMode?: InteractionMode;
+
+    // Mode shortcuts (S/M/Z/R/P, Esc) pressed while the map has focus.
+    // Without this the shortcuts are off, since the parent owns the mode.
+    onInteractionModeChange?: (mode: InteractionMode) => void;
+
+    // What "measure" mode sketches: a line ("distance", default) or a
+    // polygon ("area"), with a live geodesic label.
+    measureMode?: MeasureMode;
+
+    // When true, markers can be dragged and zone vertices reshaped.
+    // Off by default so normal panning doesn't move things by accident.
+    editMode?: boolean;
+
+    // Tile sources the map can show underneath everything else.
+    // Keep the array stable (module constant / useMemo); a new array means a new source.
+    baseLayers?: BaseLayerConfig[];
+
+    // Which entry of baseLayers to show (defaults to the first one)
+    baseLayerId?: string;
+
+    // Custom popup content for clicked markers/zones. Return undefined to keep
+    // the built-in popup for that feature. Rendered as React, so strings are
+    // escaped unless you opt out with dangerouslySetInnerHTML.
+    renderPopup?: (feature: FeatureProperties) => ReactNode;
+
+    // Category (see markerIcons.ts) for markers dropped by clicks / goToRequest
+    newMarkerCategory?: string;
+
+    // Group nearby markers into count bubbles (clicking one zooms in).
+    // Distance is in screen pixels.
+    clusterMarkers?: boolean;
+    clusterDistance?: number;
+
     seedZones?: Array<{
         name: string;
         coordinates: LonLat[];
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { bandLatitudeRange, latitudeBand, latLonToUtm, utmToLatLon, utmZone } from "./utm";
+
+describe("latitude bands", () => {
+    it("maps latitudes to band letters", () => {
+        expect(latitudeBand(33.75)).toBe("S");
+        expect(latitudeBand(-33.87)).toBe("H");
+        expect(latitudeBand(83)).toBe("X");
+        expect(latitudeBand(85)).toBeUndefined();
+        expect(latitudeBand(-81)).toBeUndefined();
+    });
+
+    it("gives each band's latitude range", () => {
+        expect(bandLatitudeRange("S")).toEqual([32, 40]);
+        expect(bandLatitudeRange("X")).toEqual([72, 84]);
+        expect(bandLatitudeRange("I")).toBeUndefined();
+    });
+});
+
+describe("zones", () => {
+    it("uses 6 degree zones plus the Norway/Svalbard exceptions", () => {
+        expect(utmZone(33.75, -84.39)).toBe(16);
+        expect(utmZone(60, 5)).toBe(32);
+        expect(utmZone(78, 20)).toBe(33);
+    });
+});
+
+describe("projection", () => {
+    it.each([
+        [33.75, -84.39],
+        [-33.87, 151.21],
+        [0.5, 0.5],
+        [64.13, -21.94],
+    ])("round-trips %f, %f", (lat, lon) => {
+        const utm = latLonToUtm(lat, lon);
+        const [backLat, backLon] = utmToLatLon(utm);
+
+        expect(backLat).toBeCloseTo(lat, 6);
+        expect(backLon).toBeCloseTo(lon, 6);
+    });
+
+    it("puts southern latitudes in the southern hemisphere with false northing", () => {
+        const utm = latLonToUtm(-33.87, 151.21);
+
+        expect(utm.hemisphere).toBe("S");
+        expect(utm.zone).toBe(56);
+        expect(utm.northing).toBeGreaterThan(6_000_000);
+    });
+});
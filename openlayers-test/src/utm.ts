@@ -0,0 +1,153 @@
+/* ============================================================
+   UTM <-> lat/lon (WGS84)
+   ============================================================
+   The mgrs package does this internally but doesn't export it,
+   so this is the same textbook series (Snyder, USGS PP 1395),
+   good to well under a metre inside a zone.
+*/
+
+export type UtmCoordinate = {
+    zone: number; // 1..60
+    hemisphere: "N" | "S";
+    easting: number; // metres
+    northing: number; // metres
+};
+
+const SEMI_MAJOR_AXIS = 6378137;
+const ECC_SQUARED = 0.00669438;
+const ECC_PRIME_SQUARED = ECC_SQUARED / (1 - ECC_SQUARED);
+const SCALE_FACTOR = 0.9996;
+const EASTING_OFFSET = 500000;
+const SOUTHERN_NORTHING_OFFSET = 10000000;
+
+// Latitude band letters C..X, 8 degrees each from 80S (X is 12 degrees)
+const BAND_LETTERS = "CDEFGHJKLMNPQRSTUVWX";
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+function centralMeridian(zone: number): number {
+    return (zone - 1) * 6 - 180 + 3;
+}
+
+/**
+ * MGRS/UTM latitude band letter, or undefined outside 80S..84N.
+ */
+export function latitudeBand(lat: number): string | undefined {
+    if (lat < -80 || lat > 84) return undefined;
+    return BAND_LETTERS[Math.min(Math.floor((lat + 80) / 8), BAND_LETTERS.length - 1)];
+}
+
+/**
+ * Latitude range a band letter covers, or undefined for a non-band letter.
+ */
+export function bandLatitudeRange(letter: string): [number, number] | undefined {
+    const index = BAND_LETTERS.indexOf(letter.toUpperCase());
+    if (index < 0) return undefined;
+
+    const south = -80 + index * 8;
+    return [south, letter.toUpperCase() === "X" ? 84 : south + 8];
+}
+
+/**
+ * Standard zone for a position, including the Norway/Svalbard exceptions.
+ */
+export function utmZone(lat: number, lon: number): number {
+    if (lat >= 56 && lat < 64 && lon >= 3 && lon < 12) return 32;
+
+    if (lat >= 72 && lat < 84 && lon >= 0 && lon < 42) {
+        if (lon < 9) return 31;
+        if (lon < 21) return 33;
+        if (lon < 33) return 35;
+        return 37;
+    }
+
+    return lon === 180 ? 60 : Math.floor((lon + 180) / 6) + 1;
+}
+
+export function latLonToUtm(lat: number, lon: number, zone = utmZone(lat, lon)): UtmCoordinate {
+    const latRad = toRad(lat);
+    const sinLat = Math.sin(latRad);
+    const cosLat = Math.cos(latRad);
+    const tanLat = Math.tan(latRad);
+
+    const n = SEMI_MAJOR_AXIS / Math.sqrt(1 - ECC_SQUARED * sinLat * sinLat);
+    const t = tanLat * tanLat;
+    const c = ECC_PRIME_SQUARED * cosLat * cosLat;
+    const a = cosLat * toRad(lon - centralMeridian(zone));
+
+    const e2 = ECC_SQUARED;
+    const m =
+        SEMI_MAJOR_AXIS *
+        ((1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 * e2 * e2) / 256) * latRad -
+            ((3 * e2) / 8 + (3 * e2 * e2) / 32 + (45 * e2 * e2 * e2) / 1024) * Math.sin(2 * latRad) +
+            ((15 * e2 * e2) / 256 + (45 * e2 * e2 * e2) / 1024) * Math.sin(4 * latRad) -
+            ((35 * e2 * e2 * e2) / 3072) * Math.sin(6 * latRad));
+
+    const easting =
+        SCALE_FACTOR *
+            n *
+            (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * ECC_PRIME_SQUARED) * a ** 5) / 120) +
+        EASTING_OFFSET;
+
+    let northing =
+        SCALE_FACTOR *
+        (m +
+            n *
+                tanLat *
+                ((a * a) / 2 +
+                    ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+                    ((61 - 58 * t + t * t + 600 * c - 330 * ECC_PRIME_SQUARED) * a ** 6) / 720));
+
+    if (lat < 0) northing += SOUTHERN_NORTHING_OFFSET;
+
+    return { zone, hemisphere: lat < 0 ? "S" : "N", easting, northing };
+}
+
+/**
+ * Returns [lat, lon]. Throws on an impossible zone.
+ */
+export function utmToLatLon({ zone, hemisphere, easting, northing }: UtmCoordinate): [number, number] {
+    if (!Number.isInteger(zone) || zone < 1 || zone > 60) {
+        throw new Error(`UTM zone must be 1-60, got ${zone}`);
+    }
+
+    const e2 = ECC_SQUARED;
+    const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+    const x = easting - EASTING_OFFSET;
+    const y = hemisphere === "S" ? northing - SOUTHERN_NORTHING_OFFSET : northing;
+
+    const mu = y / SCALE_FACTOR / (SEMI_MAJOR_AXIS * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 * e2 * e2) / 256));
+
+    const phi1 =
+        mu +
+        ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+        ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+        ((151 * e1 ** 3) / 96) * Math.sin(6 * mu);
+
+    const sinPhi = Math.sin(phi1);
+    const cosPhi = Math.cos(phi1);
+    const tanPhi = Math.tan(phi1);
+
+    const n1 = SEMI_MAJOR_AXIS / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+    const t1 = tanPhi * tanPhi;
+    const c1 = ECC_PRIME_SQUARED * cosPhi * cosPhi;
+    const r1 = (SEMI_MAJOR_AXIS * (1 - e2)) / Math.pow(1 - e2 * sinPhi * sinPhi, 1.5);
+    const d = x / (n1 * SCALE_FACTOR);
+
+    const lat =
+        phi1 -
+        ((n1 * tanPhi) / r1) *
+            ((d * d) / 2 -
+                ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ECC_PRIME_SQUARED) * d ** 4) / 24 +
+                ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ECC_PRIME_SQUARED - 3 * c1 * c1) * d ** 6) / 720);
+
+    const lon =
+        (d -
+            ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+            ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ECC_PRIME_SQUARED + 24 * t1 * t1) * d ** 5) / 120) /
+        cosPhi;
+
+    return [toDeg(lat), centralMeridian(zone) + toDeg(lon)];
+}